@@ -1,49 +1,2160 @@
 import {
 	App,
+	ButtonComponent,
 	DropdownComponent,
+	Editor,
+	ItemView,
 	MarkdownPostProcessorContext,
+	MarkdownView,
 	Modal,
 	Notice,
 	Plugin,
 	PluginSettingTab,
 	Setting,
-	TFile
+	TFile,
+	WorkspaceLeaf,
+	editorInfoField,
+	getAllTags
 } from "obsidian";
-import {exec} from "child_process";
-import {RangeSetBuilder} from "@codemirror/state";
-import {Decoration, EditorView, WidgetType} from "@codemirror/view";
+import {ChildProcess, spawn} from "child_process";
+import {EditorState, RangeSetBuilder} from "@codemirror/state";
+import {Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType} from "@codemirror/view";
+import {StreamParser, StringStream} from "@codemirror/language";
+import {
+	autocompletion,
+	Completion,
+	CompletionContext,
+	CompletionResult,
+	snippetCompletion
+} from "@codemirror/autocomplete";
+import {Diagnostic, forEachDiagnostic, linter, setDiagnostics} from "@codemirror/lint";
 import * as path from "path";
 import {promises as fs} from "fs";
 import * as os from "os";
-import {promisify} from "util";
+import {createHash} from "crypto";
+
+type ReasoningMode = "models" | "brave" | "cautious" | "query";
+
+const REASONING_MODES: Record<ReasoningMode, string> = {
+	models: "Answer sets",
+	brave: "Brave consequences",
+	cautious: "Cautious consequences",
+	query: "Query answers",
+};
+
+type SolverId = "dlv2" | "dlv" | "clingo" | "custom";
+
+interface DlvPluginSettings {
+	dlvLocationType: "absolute" | "relative";
+	absolutePath: string;
+	relativeExecutable: string;
+	availableExecutables: string[];
+	executionTimeout: number; // in millisecondi
+	customExtensions: string;
+	showErrors: boolean;
+	showAllModels: boolean;
+	hideFacts: boolean;
+	cacheResults: boolean;
+	defaultMode: ReasoningMode;
+	persistCache: boolean;
+	cacheSize: number;          // numero massimo di risultati in cache
+	dlvClassicPath: string;
+	clingoPath: string;
+	customCommand: string;      // es. "mysolver {file} --models {n}"
+	customOutputFormat: "dlv" | "clingo";
+	languageSolvers: Record<string, SolverId>;
+	resultHistory: number;      // risultati salvati mantenuti per blocco/file
+	historySize: number;        // voci massime nel pannello della cronologia
+	exportFolder: string;
+	exportFilePattern: string;  // es. "{note} {date}"
+	profiles: SolverProfile[];
+	maxParallelRuns: number;    // 0 = nessun limite
+}
+
+const DEFAULT_SETTINGS: DlvPluginSettings = {
+	dlvLocationType: "relative",
+	absolutePath: "",
+	relativeExecutable: "",     // vuoto = scelto in base a piattaforma e architettura
+	availableExecutables: [],
+	executionTimeout: 0,
+	customExtensions: "asp",
+	showErrors: false,
+	showAllModels: false,
+	hideFacts: false,
+	cacheResults: true,
+	defaultMode: "models",
+	persistCache: false,
+	cacheSize: 100,
+	dlvClassicPath: "dlv",
+	clingoPath: "clingo",
+	customCommand: "",
+	customOutputFormat: "dlv",
+	languageSolvers: {},
+	resultHistory: 1,
+	historySize: 50,
+	exportFolder: "DLV exports",
+	exportFilePattern: "{note} {date} {time}",
+	profiles: [
+		{ name: "all", models: 0, noFacts: true },
+		{ name: "fast", models: 1, timeout: 2000 },
+		{ name: "debug", models: 0, noFacts: false, view: "text" }
+	],
+	maxParallelRuns: 2,
+};
+
+interface AspAtom {
+	predicate: string;
+	arity: number;
+	args: string[];
+}
+
+interface CostLevel {
+	weight: number;
+	level: number;
+}
+
+interface AnswerSet {
+	atoms: AspAtom[];
+	cost?: CostLevel[];         // presente solo con weak constraint
+}
+
+interface DlvResult {
+	stdout: string;
+	stderr: string;
+	mode: ReasoningMode;
+	models: AnswerSet[];
+	consequences: AspAtom[];    // solo per brave, cautious e query
+	optimum: boolean;           // DLV ha dimostrato l'ottimalità dell'ultimo modello
+	timedOut: boolean;
+	aborted: boolean;
+	cached?: boolean;
+	solver: string;             // nome del backend che ha eseguito il programma
+	diagnostics: SolverDiagnostic[];
+	flags?: string;             // argomenti passati al solver, senza il file
+	exitCode?: number | null;
+	view?: OutputView;          // vista preferita (dal blocco o dal profilo)
+}
+
+interface GroundResult {
+	text: string;               // programma ground in formato testo
+	stderr: string;
+	solver: string;
+	time: number;               // millisecondi
+	timedOut: boolean;
+	aborted: boolean;
+	program?: ResolvedProgram;
+	diagnostics: SolverDiagnostic[];
+}
+
+interface SolverDiagnostic {
+	line: number;               // 1-based, nella sorgente
+	message: string;
+	severity: "error" | "warning" | "info";
+	source: string;             // etichetta della sorgente, "" = blocco/file eseguito
+	path: string;               // file che contiene la sorgente
+	fileLine?: number;          // riga 0-based della sorgente nel file (solo per gli include)
+}
+
+type ProgressCallback = (stdout: string, modelCount: number) => void;
+
+interface CodeBlockHooks {
+	onResult?: (result: DlvResult) => void;
+	onDiagnosticClick?: (diagnostic: SolverDiagnostic) => void;
+	onSave?: (result: DlvResult) => Promise<void>;
+	onHighlight?: (diagnostics: SolverDiagnostic[]) => void;
+}
+
+// Azioni di un blocco già collegato, usate anche dai comandi
+interface BlockControls {
+	run: () => Promise<DlvResult>;
+	save: () => Promise<DlvResult>;
+}
+
+interface CodeBlockUI {
+	header: HTMLElement;
+	outputPre: HTMLElement;
+	copyBtn: HTMLButtonElement;
+	modeSelect: HTMLSelectElement;
+	counterEl: HTMLElement;
+	solverEl: HTMLElement;
+}
+
+interface BlockOptions {
+	models?: number;        // 0 = tutti i modelli
+	filter?: string[];      // predicati nella forma nome/arità
+	timeout?: number;       // in millisecondi
+	noFacts?: boolean;
+	id?: string;            // nome del blocco, usato da include
+	include?: string[];     // blocchi o file da anteporre al programma
+	mode?: ReasoningMode;
+	solver?: SolverId;
+	graph?: GraphOptions;
+	grid?: GridOptions;
+	factSources?: FactSource[]; // fatti caricati da CSV, tabelle e frontmatter
+	profile?: string;
+	view?: OutputView;      // vista dell'output mostrata per prima
+}
+
+type OutputView = "text" | "graph" | "grid";
+
+// Profilo con nome: solver, flag, timeout, filtro e vista, richiamabile con profile=nome
+interface SolverProfile {
+	name: string;
+	solver?: SolverId;
+	models?: number;        // 0 = tutti i modelli
+	noFacts?: boolean;
+	timeout?: number;
+	filter?: string[];
+	mode?: ReasoningMode;
+	view?: OutputView;
+}
+
+function getSelectedMode(select: HTMLSelectElement): ReasoningMode | undefined {
+	return select.dataset.touched ? select.value as ReasoningMode : undefined;
+}
+
+// Profilo indicato in testa al programma: "% profile: fast"
+function findProfileComment(program: string): string | undefined {
+	for (const line of program.split("\n")) {
+		const text = line.trim();
+		if (!text) continue;
+		if (!text.startsWith("%")) return undefined;
+		const match = text.match(/^%\s*profile\s*:\s*([\w-]+)/i);
+		if (match) return match[1];
+	}
+	return undefined;
+}
+
+// Opzioni graph.*: predicati nella forma nome/arità
+interface GraphOptions {
+	node?: string;
+	edge?: string;          // arco(Da, A) oppure arco(Da, A, Etichetta)
+	color?: string;         // colore(Nodo, Valore)
+	label?: string;         // etichetta(Nodo, Testo)
+	layout?: "force" | "layered";
+	directed?: boolean;
+}
+
+// Opzioni grid: cella(Riga, Colonna, Valore) più la mappa dei valori
+interface GridOptions {
+	predicate: string;
+	colors?: Record<string, string> | "auto";
+	symbols?: Record<string, string>;
+	highlight?: string;     // predicato(Riga, Colonna, ...) delle celle da evidenziare
+}
+
+// Contesto per la vista dell'output: opzioni del blocco e nota di origine
+interface OutputContext {
+	options?: BlockOptions;
+	sourcePath?: string;
+}
+
+interface FenceInfo {
+	lang: string;
+	options: BlockOptions;
+}
+
+// Divide l'info string in token, rispettando i valori tra virgolette (key="a b")
+function tokenizeFenceInfo(info: string): string[] {
+	return info.match(/[^\s"=]+="[^"]*"|\S+/g) || [];
+}
+
+const FENCE_FLAGS = ["nofacts", "facts", "brave", "cautious", "query", "graph.directed"];
+
+// Legge l'info string di un code fence, es. "asp models=3 filter=path/2,cost/1 timeout=5000 nofacts"
+function parseFenceInfo(info: string): FenceInfo {
+	const [lang = "", ...tokens] = tokenizeFenceInfo(info.trim());
+	const options: BlockOptions = {};
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		const eq = token.indexOf("=");
+		const key = (eq < 0 ? token : token.slice(0, eq)).toLowerCase();
+		const value = eq < 0 ? "" : token.slice(eq + 1).replace(/^"(.*)"$/, "$1");
+
+		switch (key) {
+			case "models":
+			case "n": {
+				const n = value.toLowerCase() === "all" ? 0 : parseInt(value);
+				if (!isNaN(n) && n >= 0) options.models = n;
+				break;
+			}
+			case "filter":
+				options.filter = value.split(",").map(p => p.trim()).filter(p => p.length > 0);
+				break;
+			case "timeout": {
+				const ms = parseInt(value);
+				if (!isNaN(ms) && ms >= 0) options.timeout = ms;
+				break;
+			}
+			case "nofacts":
+				options.noFacts = true;
+				break;
+			case "facts":
+			case "facts-from-frontmatter": {
+				if (!value) {
+					if (key === "facts") options.noFacts = false;
+					break;
+				}
+				// Il valore può continuare nei token successivi: facts=[[people.csv]] as person/3
+				let text = value;
+				while (i + 1 < tokens.length && !tokens[i + 1].includes("=") && !FENCE_FLAGS.includes(tokens[i + 1].toLowerCase())) {
+					text += ` ${tokens[++i]}`;
+				}
+				const source = parseFactSource(key === "facts" ? "file" : "frontmatter", text);
+				if (source) options.factSources = [...(options.factSources || []), source];
+				break;
+			}
+			case "id":
+				if (value) options.id = value;
+				break;
+			case "include":
+				options.include = [...(options.include || []), ...splitTopLevel(value).filter(t => t.length > 0)];
+				break;
+			case "of":
+				// Blocchi di test: il programma sotto test è un include
+				if (value) options.include = [value, ...(options.include || [])];
+				break;
+			case "mode":
+				if (value in REASONING_MODES) options.mode = value as ReasoningMode;
+				break;
+			case "brave":
+			case "cautious":
+			case "query":
+				options.mode = key;
+				break;
+			case "solver":
+				if (value in SOLVER_NAMES) options.solver = value as SolverId;
+				break;
+			case "profile":
+				if (value) options.profile = value;
+				break;
+			case "view":
+				if (value === "text" || value === "graph" || value === "grid") options.view = value;
+				break;
+			case "graph.node":
+			case "graph.edge":
+			case "graph.color":
+			case "graph.label":
+				if (value) options.graph = { ...options.graph, [key.slice("graph.".length)]: value };
+				break;
+			case "graph.layout":
+				if (value === "force" || value === "layered") options.graph = { ...options.graph, layout: value };
+				break;
+			case "graph.directed":
+				options.graph = { ...options.graph, directed: value !== "false" };
+				break;
+			case "grid":
+				if (value) options.grid = { ...options.grid, predicate: value };
+				break;
+			case "grid.colors":
+				options.grid = { predicate: "", ...options.grid, colors: value === "auto" ? "auto" : parseValueMap(value) };
+				break;
+			case "grid.symbols":
+				options.grid = { predicate: "", ...options.grid, symbols: parseValueMap(value) };
+				break;
+			case "grid.highlight":
+				if (value) options.grid = { predicate: "", ...options.grid, highlight: value };
+				break;
+		}
+	}
+	return { lang: lang.toLowerCase(), options };
+}
+
+interface CodeBlock extends FenceInfo {
+	content: string;
+	start: number;          // offset del contenuto nel documento
+	end: number;
+	line: number;           // riga (0-based) della prima riga di contenuto
+}
+
+interface SourceSegment {
+	label: string;          // "" = il blocco/file eseguito
+	startLine: number;      // prima riga (1-based) nel programma composto
+	lineCount: number;
+	path: string;
+	fileLine?: number;      // riga 0-based del blocco incluso nel suo file
+}
+
+interface ResolvedProgram {
+	text: string;
+	segments: SourceSegment[];
+}
+
+// Fence con ``` o ~~~ (anche più lunghi): la chiusura usa lo stesso carattere ed è lunga almeno quanto l'apertura
+function findCodeBlocks(text: string): CodeBlock[] {
+	const blocks: CodeBlock[] = [];
+	let open: { fence: string; info: string; start: number; line: number } | null = null;
+	let offset = 0;
+
+	text.split("\n").forEach((line, i) => {
+		const lineStart = offset;
+		offset += line.length + 1;
+		if (!open) {
+			const match = line.match(/^\s*(`{3,}|~{3,})(.*)$/);
+			// Le info di un fence con backtick non possono contenere backtick
+			if (match && !(match[1][0] === "`" && match[2].includes("`"))) {
+				open = { fence: match[1], info: match[2], start: offset, line: i + 1 };
+			}
+			return;
+		}
+		const close = line.match(/^\s*(`{3,}|~{3,})\s*$/);
+		if (close && close[1][0] === open.fence[0] && close[1].length >= open.fence.length) {
+			blocks.push({
+				...parseFenceInfo(open.info),
+				content: text.slice(open.start, lineStart),
+				start: open.start,
+				end: lineStart,
+				line: open.line
+			});
+			open = null;
+		}
+	});
+	return blocks;
+}
+
+// Direttive nella forma: %#include "[[Altra nota#encoding]]"
+function findIncludeDirectives(program: string): string[] {
+	const targets: string[] = [];
+	const regex = /^\s*%#include\s+(?:"([^"]+)"|(\[\[[^\]]+\]\]))/gm;
+
+	let match;
+	while ((match = regex.exec(program)) !== null) {
+		targets.push(match[1] || match[2]);
+	}
+	return targets;
+}
+
+interface FactSource {
+	kind: "file" | "frontmatter";
+	target: string;         // "[[people.csv]]" oppure "#project" / cartella
+	predicate: string;
+	arity?: number;         // da "person/3"
+	fields?: string[];      // da "person(Name, Age)": colonne o chiavi del frontmatter
+}
+
+// "[[people.csv]] as person/3", "[[people.csv]] as person(Name, Age)" oppure solo "[[people.csv]]"
+function parseFactSource(kind: FactSource["kind"], text: string): FactSource | null {
+	const value = text.trim();
+	const match = kind === "file"
+		? value.match(/^(.+?)(?:\s+as\s+(.+))?$/i)
+		: value.match(/^(.+?)\s*(?:→|->)\s*(.+)$/);
+	if (!match) return null;
+
+	const target = match[1].trim();
+	const spec = (match[2] || "").trim();
+	const source: FactSource = { kind, target, predicate: "" };
+
+	const withArity = parsePredicateSpec(spec);
+	const withFields = spec.match(/^(-?[a-z][A-Za-z0-9_]*)\s*\((.*)\)$/);
+	if (withArity) {
+		source.predicate = withArity.name;
+		source.arity = withArity.arity;
+	} else if (withFields) {
+		source.predicate = withFields[1];
+		source.fields = splitTopLevel(withFields[2]).map(field => unquote(field.trim()));
+	} else if (!spec && kind === "file") {
+		// Senza "as": il predicato prende il nome del file (senza alias "|…" né "#heading"), con tutte le colonne
+		const link = target.replace(/^\[\[|\]\]$/g, "").split("|")[0].split("#")[0].trim();
+		const name = path.basename(link, path.extname(link));
+		source.predicate = name.toLowerCase().replace(/[^a-z0-9_]/g, "_").replace(/^[^a-z]+/, "") || "row";
+	} else {
+		return null;
+	}
+	return source;
+}
+
+// Direttive nel programma: "%#facts [[people.csv]] as person/3" e "%#facts-from-frontmatter #project → project(Name, Status)"
+function findFactDirectives(program: string): FactSource[] {
+	const sources: FactSource[] = [];
+	const regex = /^\s*%#facts(-from-frontmatter)?\s+(.+)$/gm;
+
+	let match;
+	while ((match = regex.exec(program)) !== null) {
+		const source = parseFactSource(match[1] ? "frontmatter" : "file", match[2]);
+		if (source) sources.push(source);
+	}
+	return sources;
+}
+
+// Termine ASP: gli interi restano numeri, tutto il resto diventa una stringa tra virgolette
+function toAspTerm(value: unknown): string {
+	const text = String(value ?? "").trim();
+	// Solo interi in forma canonica: "007" o "01234" restano stringhe
+	if (/^-?(0|[1-9]\d*)$/.test(text) && Math.abs(parseInt(text)) < 2 ** 31) return parseInt(text).toString();
+	return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+}
+
+// CSV con virgolette (RFC 4180); il separatore è ";" se la prima riga ne ha più delle virgole
+function parseCsv(text: string): string[][] {
+	const firstLine = text.split("\n")[0] || "";
+	const separator = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ";" : ",";
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (quoted) {
+			if (ch === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (ch === '"') {
+				quoted = false;
+			} else {
+				cell += ch;
+			}
+		} else if (ch === '"') {
+			quoted = true;
+		} else if (ch === separator) {
+			row.push(cell);
+			cell = "";
+		} else if (ch === "\n" || ch === "\r") {
+			if (ch === "\r" && text[i + 1] === "\n") i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += ch;
+		}
+	}
+	if (cell || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+// Prima tabella markdown della nota: intestazione, separatore e righe
+function parseMarkdownTable(text: string): string[][] {
+	const lines = text.split("\n");
+	const start = lines.findIndex((line, i) =>
+		line.trim().startsWith("|") && /^\s*\|?\s*:?-{3,}/.test(lines[i + 1] || ""));
+	if (start < 0) return [];
+
+	const splitRow = (line: string) => line.trim()
+		.replace(/^\||\|$/g, "")
+		.split(/(?<!\\)\|/)
+		.map(cell => cell.trim().replace(/\\\|/g, "|"));
+	const rows = [splitRow(lines[start])];
+	for (let i = start + 2; i < lines.length && lines[i].trim().startsWith("|"); i++) {
+		rows.push(splitRow(lines[i]));
+	}
+	return rows;
+}
+
+// Righe (con intestazione) → fatti; gli errori indicano file e riga
+function rowsToFacts(rows: string[][], source: FactSource, fileName: string): string[] {
+	if (rows.length === 0) throw new Error(`${fileName}: no data found`);
+	const header = rows[0].map(cell => cell.trim().toLowerCase());
+
+	let columns: number[];
+	if (source.fields) {
+		columns = source.fields.map(field => {
+			const index = header.indexOf(field.toLowerCase());
+			if (index < 0) throw new Error(`${fileName}: no column "${field}" (columns: ${rows[0].join(", ")})`);
+			return index;
+		});
+	} else {
+		const arity = source.arity ?? header.length;
+		if (arity > header.length) {
+			throw new Error(`${fileName}: ${source.predicate}/${arity} needs ${arity} columns, found ${header.length}`);
+		}
+		columns = Array.from({ length: arity }, (_, i) => i);
+	}
+
+	return rows.slice(1).map((row, index) => {
+		const missing = columns.find(column => column >= row.length);
+		if (missing !== undefined) {
+			throw new Error(`${fileName} row ${index + 2}: expected ${columns.length} values, found ${row.length}`);
+		}
+		const args = columns.map(column => toAspTerm(row[column]));
+		return args.length > 0 ? `${source.predicate}(${args.join(",")}).` : `${source.predicate}.`;
+	});
+}
+
+// Un fatto per nota; i campi lista producono un fatto per ogni valore.
+// "Name" senza un campo omonimo nel frontmatter è il nome della nota
+function frontmatterToFacts(frontmatter: Record<string, unknown> | undefined, source: FactSource, file: TFile): string[] {
+	const entries = Object.entries(frontmatter || {});
+	const values = (source.fields || []).map(field => {
+		const entry = entries.find(([key]) => key.toLowerCase() === field.toLowerCase());
+		if (entry) return Array.isArray(entry[1]) ? entry[1] : [entry[1]];
+		if (field.toLowerCase() === "name") return [file.basename];
+		throw new Error(`${file.path}: missing frontmatter field "${field}"`);
+	});
+
+	let rows: unknown[][] = [[]];
+	values.forEach(options => {
+		rows = rows.flatMap(row => options.map(value => [...row, value]));
+	});
+	return rows.map(row => row.length > 0
+		? `${source.predicate}(${row.map(toAspTerm).join(",")}).`
+		: `${source.predicate}.`);
+}
+
+// Riporta una riga del programma composto alla sorgente da cui proviene
+function mapProgramLine(program: ResolvedProgram, line: number) {
+	const segment = program.segments.find(s => line >= s.startLine && line < s.startLine + s.lineCount);
+	return segment
+		? { label: segment.label, line: line - segment.startLine + 1, path: segment.path, fileLine: segment.fileLine }
+		: { label: "", line, path: "", fileLine: undefined };
+}
+
+// Divide una lista di termini sulle virgole di primo livello (ignora parentesi e stringhe)
+function splitTopLevel(text: string, separator = ","): string[] {
+	const parts: string[] = [];
+	let depth = 0;
+	let inString = false;
+	let current = "";
+
+	for (let i = 0; i < text.length; i++) {
+		const ch = text[i];
+		if (inString) {
+			current += ch;
+			if (ch === "\\" && i + 1 < text.length) {
+				current += text[++i];
+			} else if (ch === '"') {
+				inString = false;
+			}
+			continue;
+		}
+		if (ch === '"') inString = true;
+		else if (ch === "(" || ch === "{" || ch === "[") depth++;
+		else if (ch === ")" || ch === "}" || ch === "]") depth--;
+
+		if (ch === separator && depth === 0) {
+			parts.push(current.trim());
+			current = "";
+		} else {
+			current += ch;
+		}
+	}
+	if (current.trim().length > 0) parts.push(current.trim());
+	return parts;
+}
+
+function parseAtom(text: string): AspAtom {
+	const open = text.indexOf("(");
+	if (open < 0 || !text.endsWith(")")) {
+		return { predicate: text, arity: 0, args: [] };
+	}
+	const args = splitTopLevel(text.slice(open + 1, -1));
+	return { predicate: text.slice(0, open).trim(), arity: args.length, args };
+}
+
+// Estrae gli answer set dall'output di DLV: una riga "{a, b(1,2), ...}" per modello,
+// seguita dal costo se il programma ha weak constraint ("COST 3@1 1@2" o "Cost ([Weight:Level]): <[3:1]>")
+function parseAnswerSets(stdout: string): AnswerSet[] {
+	const models: AnswerSet[] = [];
+	for (const rawLine of stdout.split("\n")) {
+		const line = rawLine.trim().replace(/^Best model:\s*/i, "");
+		const cost = parseCostLine(line);
+		if (cost) {
+			if (models.length > 0) models[models.length - 1].cost = cost;
+			continue;
+		}
+		if (!line.startsWith("{") || !line.endsWith("}")) continue;
+
+		const atoms = splitTopLevel(line.slice(1, -1)).map(parseAtom);
+		models.push({ atoms });
+	}
+	return models;
+}
+
+function parseCostLine(line: string): CostLevel[] | null {
+	if (/^COST\s/i.test(line)) {
+		return line.replace(/^COST\s+/i, "").split(/\s+/)
+			.map(pair => pair.split("@"))
+			.map(([weight, level]) => ({ weight: parseInt(weight), level: parseInt(level || "1") }))
+			.filter(cost => !isNaN(cost.weight));
+	}
+	if (/^Cost\b/i.test(line)) {
+		const levels: CostLevel[] = [];
+		const regex = /\[(-?\d+):(\d+)\]/g;
+		let match;
+		while ((match = regex.exec(line)) !== null) {
+			levels.push({ weight: parseInt(match[1]), level: parseInt(match[2]) });
+		}
+		return levels;
+	}
+	return null;
+}
+
+// Conta i modelli stampati finora (formato DLV o clingo)
+function countModels(stdout: string): number {
+	return stdout.split("\n").filter(line => /^\s*(\{|Answer:)/.test(line)).length;
+}
+
+// Termina il solver e gli eventuali processi figli
+function killProcessTree(child: ChildProcess) {
+	if (child.pid === undefined || child.exitCode !== null) return;
+	if (process.platform === "win32") {
+		spawn("taskkill", ["/pid", child.pid.toString(), "/T", "/F"], { windowsHide: true });
+		return;
+	}
+	try {
+		// Il solver è avviato in un gruppo di processi proprio (detached): -pid lo termina tutto
+		process.kill(-child.pid, "SIGKILL");
+	} catch {
+		child.kill("SIGKILL");
+	}
+}
+
+function isOptimumProven(stdout: string): boolean {
+	return /^\s*OPTIMUM\s*$/m.test(stdout);
+}
+
+// Confronta due costi: i livelli più alti contano di più
+function compareCosts(a: CostLevel[], b: CostLevel[]): number {
+	const levels = Array.from(new Set([...a, ...b].map(c => c.level))).sort((x, y) => y - x);
+	for (const level of levels) {
+		const wa = a.filter(c => c.level === level).reduce((sum, c) => sum + c.weight, 0);
+		const wb = b.filter(c => c.level === level).reduce((sum, c) => sum + c.weight, 0);
+		if (wa !== wb) return wa - wb;
+	}
+	return 0;
+}
+
+function formatCost(cost: CostLevel[]): string {
+	return [...cost]
+		.sort((a, b) => b.level - a.level)
+		.map(c => `${c.weight}@${c.level}`)
+		.join(" ");
+}
+
+// Con brave/cautious DLV stampa approssimazioni successive: vale l'ultimo insieme.
+// Le risposte a una query non ground possono arrivare anche come atomi senza parentesi graffe.
+function parseConsequences(stdout: string): AspAtom[] {
+	const sets = parseAnswerSets(stdout);
+	if (sets.length > 0) return sets[sets.length - 1].atoms;
+
+	return stdout.split("\n")
+		.map(line => line.trim().replace(/\.$/, ""))
+		.filter(line => /^-?[a-z][A-Za-z0-9_]*(\(.*\))?$/.test(line))
+		.map(parseAtom);
+}
+
+// Una query è l'ultima regola del programma terminata da "?" (es. "path(a,X)?")
+function hasQuery(program: string): boolean {
+	const code = program.replace(/%.*$/gm, "");
+	return /[A-Za-z0-9_)\s]\?\s*$/.test(code.trim());
+}
+
+function cleanDlvOutput(output: string) {
+	return output
+		.replace(/^DLV \d+\.\d+\.\d+\s*\n/, "") // Rimuove la riga della versione
+		.replace(/Generic warning: .*\n?/g, "")  // Rimuove i warning generici
+		.trim();
+}
+
+function cleanDlvErrors(errorOutput: string): string {
+	// Split in linee e filtra
+	const lines = errorOutput.split('\n')
+		.map(line => {
+			// 1. Rimuovi interi percorsi file
+			line = line.replace(/([A-Za-z]:\\[^\s]+|\/[^\s]+)/g, '')
+				.replace(/(dlv-temp-[\w-]+\.\w+)/gi, 'Input');
+
+			// 2. Estrai solo la parte dopo "line X:"
+			const errorMatch = line.match(/(line \d+):\s*(.*)/i);
+			if (errorMatch) {
+				return `${errorMatch[1]}: ${errorMatch[2].replace(/^.*?:\s*/, '')}`;
+			}
+
+			// 3. Rimuovi righe non rilevanti
+			return line.includes('Command failed:') ||
+			line.includes('Aborting due to') ? '' : line;
+		})
+		.filter(line => line.trim().length > 0);
+
+	// 4. Unisci e formatta
+	return lines.join('\n')
+		.replace(/(line \d+):/gi, 'Errore:\n$1')
+		.replace(/[.:]+$/, '') // Rimuovi punti finali
+		.trim();
+}
+
+function groupAtomsByPredicate(atoms: AspAtom[]): Map<string, AspAtom[]> {
+	const groups = new Map<string, AspAtom[]>();
+	for (const atom of atoms) {
+		const key = `${atom.predicate}/${atom.arity}`;
+		const group = groups.get(key);
+		if (group) group.push(atom);
+		else groups.set(key, [atom]);
+	}
+	return groups;
+}
+
+type ExportFormat = "json" | "csv" | "markdown";
+
+interface ExportMeta {
+	source: string;             // percorso della nota di origine
+	solver: string;
+	flags: string;
+	date: Date;
+}
+
+// Atomi per modello: per brave/cautious/query c'è un solo insieme, quello delle conseguenze
+function getExportModels(result: DlvResult): AnswerSet[] {
+	return result.mode === "models" ? result.models : [{ atoms: result.consequences }];
+}
+
+function resultToJson(result: DlvResult, meta: ExportMeta): string {
+	return JSON.stringify({
+		source: meta.source,
+		solver: meta.solver,
+		flags: meta.flags,
+		mode: result.mode,
+		exported: meta.date.toISOString(),
+		models: getExportModels(result).map(model => ({
+			...(model.cost ? { cost: model.cost } : {}),
+			atoms: model.atoms.map(atom => ({ predicate: atom.predicate, args: atom.args }))
+		}))
+	}, null, 2);
+}
+
+function escapeCsv(value: string) {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Un CSV per predicato ("nome/arità"), con la colonna del modello
+function resultToCsv(result: DlvResult): Map<string, string> {
+	const rows = new Map<string, string[][]>();
+	getExportModels(result).forEach((model, index) => {
+		groupAtomsByPredicate(model.atoms).forEach((atoms, key) => {
+			if (!rows.has(key)) rows.set(key, []);
+			atoms.forEach(atom => rows.get(key)!.push([(index + 1).toString(), ...atom.args.map(unquote)]));
+		});
+	});
+
+	const files = new Map<string, string>();
+	rows.forEach((lines, key) => {
+		const arity = parseInt(key.split("/")[1]) || 0;
+		const header = ["model", ...Array.from({ length: arity }, (_, i) => `arg${i + 1}`)];
+		files.set(key, [header, ...lines].map(line => line.map(escapeCsv).join(",")).join("\n") + "\n");
+	});
+	return files;
+}
+
+function escapeTableCell(value: string) {
+	return value.replace(/\|/g, "\\|");
+}
+
+// Nota Markdown: frontmatter con origine, solver e flag, poi una tabella per predicato
+function resultToMarkdown(result: DlvResult, meta: ExportMeta): string {
+	const lines = [
+		"---",
+		`source: "[[${meta.source}]]"`,
+		`solver: ${JSON.stringify(meta.solver)}`,
+		`flags: ${JSON.stringify(meta.flags)}`,
+		`mode: ${result.mode}`,
+		`exported: ${meta.date.toISOString()}`,
+		"---",
+		""
+	];
+	const models = getExportModels(result);
+	models.forEach((model, index) => {
+		lines.push(result.mode === "models" ? `## Answer set ${index + 1}` : `## ${REASONING_MODES[result.mode]}`, "");
+		if (model.cost) lines.push(`Cost: ${formatCost(model.cost)}`, "");
+		if (model.atoms.length === 0) lines.push("Empty answer set", "");
+
+		groupAtomsByPredicate(model.atoms).forEach((atoms, key) => {
+			lines.push(`### ${key}`, "");
+			if (atoms[0].arity === 0) {
+				lines.push(`\`${atoms[0].predicate}\``, "");
+				return;
+			}
+			lines.push(`| ${atoms[0].args.map((_, i) => `#${i + 1}`).join(" | ")} |`);
+			lines.push(`| ${atoms[0].args.map(() => "---").join(" | ")} |`);
+			atoms.forEach(atom => lines.push(`| ${atom.args.map(escapeTableCell).join(" | ")} |`));
+			lines.push("");
+		});
+	});
+	if (models.length === 0) lines.push("No answer set", "");
+	return lines.join("\n");
+}
+
+// Nome del file dal pattern: {note}, {date}, {time}, {mode}, {solver}, {predicate}
+function formatExportName(pattern: string, meta: ExportMeta, mode: ReasoningMode, predicate = ""): string {
+	const pad = (n: number) => n.toString().padStart(2, "0");
+	const date = meta.date;
+	let name = pattern
+		.replace(/\{note\}/g, meta.source ? path.basename(meta.source, path.extname(meta.source)) : "answer-sets")
+		.replace(/\{date\}/g, `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`)
+		.replace(/\{time\}/g, `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`)
+		.replace(/\{mode\}/g, mode)
+		.replace(/\{solver\}/g, meta.solver)
+		.replace(/\{predicate\}/g, predicate.replace("/", "-"));
+	if (predicate && !pattern.includes("{predicate}")) name += ` ${predicate.replace("/", "-")}`;
+	return name.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim() || "answer-sets";
+}
+
+const RESULT_FENCE = "dlv-result";
+const RESULT_START = "% dlv-result:start";
+const RESULT_END = "% dlv-result:end";
+// Ogni voce salvata inizia con questa riga: il solver non può stamparla, a differenza di "=== ... ==="
+const RESULT_ENTRY = "% dlv-result:entry";
+
+interface TextEdit {
+	from: number;
+	to: number;
+	insert: string;
+}
+
+// Divide il contenuto di un risultato salvato nelle singole voci (ognuna inizia con RESULT_ENTRY)
+function splitResultEntries(lines: string[]): string[][] {
+	const entries: string[][] = [];
+	lines.forEach(line => {
+		if (line.trim().startsWith(RESULT_ENTRY) || entries.length === 0) entries.push([]);
+		entries[entries.length - 1].push(line);
+	});
+	return entries.filter(entry => entry.some(line => line.trim() !== ""));
+}
+
+function lineOffset(lines: string[], index: number) {
+	return lines.slice(0, index).reduce((offset, line) => offset + line.length + 1, 0);
+}
+
+function applyTextEdit(text: string, edit: TextEdit) {
+	return text.slice(0, edit.from) + edit.insert + text.slice(edit.to);
+}
+
+// Blocco "dlv-result" subito sotto il blocco che si chiude alla riga closingLine (0-based):
+// se esiste già viene sostituito, mantenendo al più `history` voci
+function buildBlockResultEdit(text: string, closingLine: number, entry: string[], history: number): TextEdit | null {
+	const lines = text.split("\n");
+	if (!/^\s*(`{3,}|~{3,})\s*$/.test(lines[closingLine] ?? "")) return null;
+
+	let next = closingLine + 1;
+	while (next < lines.length && lines[next].trim() === "") next++;
+
+	const build = (previous: string[][]) =>
+		["```" + RESULT_FENCE, ...[entry, ...previous].slice(0, Math.max(1, history)).flat(), "```"].join("\n");
+
+	if (next < lines.length && lines[next].trim().startsWith("```" + RESULT_FENCE)) {
+		let close = next + 1;
+		while (close < lines.length && lines[close].trim() !== "```") close++;
+		const last = Math.min(close, lines.length - 1);
+		return {
+			from: lineOffset(lines, closingLine + 1),
+			to: lineOffset(lines, last) + lines[last].length,
+			insert: build(splitResultEntries(lines.slice(next + 1, close)))
+		};
+	}
+
+	const at = lineOffset(lines, closingLine) + lines[closingLine].length;
+	return { from: at, to: at, insert: `\n${build([])}` };
+}
+
+// Risultato di un intero file: regione tra RESULT_START e RESULT_END, in fondo al file se assente
+function buildFileResultEdit(text: string, entry: string[], history: number): TextEdit {
+	const lines = text.split("\n");
+	const commented = entry.map(line => line.startsWith(RESULT_ENTRY) ? line : `% ${line}`.trimEnd());
+	const build = (previous: string[][]) =>
+		[RESULT_START, ...[commented, ...previous].slice(0, Math.max(1, history)).flat(), RESULT_END].join("\n");
+
+	const start = lines.findIndex(line => line.trim() === RESULT_START);
+	const end = start < 0 ? -1 : lines.findIndex((line, i) => i > start && line.trim() === RESULT_END);
+	if (start >= 0 && end >= 0) {
+		return {
+			from: lineOffset(lines, start),
+			to: lineOffset(lines, end) + lines[end].length,
+			insert: build(splitResultEntries(lines.slice(start + 1, end)))
+		};
+	}
+
+	const trimmed = text.replace(/\s+$/, "");
+	return { from: trimmed.length, to: text.length, insert: `\n\n${build([])}\n` };
+}
+
+const SOLVER_NAMES: Record<SolverId, string> = {
+	dlv2: "DLV2",
+	dlv: "DLV",
+	clingo: "clingo",
+	custom: "Custom",
+};
+
+interface SolverRunOptions {
+	mode: ReasoningMode;
+	models?: number;            // 0 = tutti i modelli, undefined = default del solver
+	hideFacts: boolean;
+	filter?: string[];          // predicati nella forma nome/arità
+	timeout: number;            // in millisecondi, 0 = nessuno
+}
+
+interface ParsedSolverOutput {
+	text: string;
+	models: AnswerSet[];
+	consequences: AspAtom[];
+	optimum: boolean;
+}
+
+interface SolverBackend {
+	id: SolverId;
+	name: string;
+	modes: ReasoningMode[];
+	buildArgs(file: string, options: SolverRunOptions): string[];
+	groundArgs?(file: string): string[];    // solo grounding, programma istanziato in formato testo
+	prepareProgram?(program: string, options: SolverRunOptions): string;
+	parseOutput(stdout: string, mode: ReasoningMode): ParsedSolverOutput;
+	cleanErrors(stderr: string): string;
+	parseDiagnostics(stderr: string): RawDiagnostic[];
+}
+
+type RawDiagnostic = Pick<SolverDiagnostic, "line" | "message" | "severity">;
+
+// Righe di DLV nella forma "... line 3: Syntax error: ..." (errori di parsing, safety e grounding)
+function parseDlvDiagnostics(stderr: string): RawDiagnostic[] {
+	const diagnostics: RawDiagnostic[] = [];
+	for (const line of stderr.split("\n")) {
+		const match = line.match(/line (\d+):\s*(.*)/i);
+		if (!match) continue;
+		const message = (match[2].replace(/^.*?:\s*/, "") || match[2]).replace(/[.:]+$/, "");
+		diagnostics.push({
+			line: parseInt(match[1]),
+			message,
+			severity: /warning/i.test(line) ? "warning" : "error"
+		});
+	}
+	return diagnostics;
+}
+
+function parseClingoDiagnostics(stderr: string): RawDiagnostic[] {
+	const diagnostics: RawDiagnostic[] = [];
+	for (const line of stderr.split("\n")) {
+		const match = line.match(/:(\d+):\d+(?:-[\d:]+)?:\s*(error|warning|info):\s*(.*)$/);
+		if (!match) continue;
+		diagnostics.push({
+			line: parseInt(match[1]),
+			message: match[3],
+			severity: match[2] === "error" ? "error" : "warning"
+		});
+	}
+	return diagnostics;
+}
+
+function parseDlvOutput(stdout: string, mode: ReasoningMode): ParsedSolverOutput {
+	const text = cleanDlvOutput(stdout);
+	return {
+		text,
+		models: mode === "models" ? parseAnswerSets(text) : [],
+		consequences: mode === "models" ? [] : parseConsequences(text),
+		optimum: isOptimumProven(text)
+	};
+}
+
+// Output di clingo: "Answer: N" seguito dagli atomi separati da spazi, "Optimization: 3 1", "OPTIMUM FOUND"
+function parseClingoOutput(stdout: string, mode: ReasoningMode): ParsedSolverOutput {
+	const models: AnswerSet[] = [];
+	const lines = stdout.split("\n").map(line => line.trim());
+
+	lines.forEach((line, i) => {
+		if (/^Answer:/.test(line)) {
+			const atoms = splitTopLevel(lines[i + 1] || "", " ").filter(a => a.length > 0).map(parseAtom);
+			models.push({ atoms });
+		} else if (/^Optimization:/.test(line) && models.length > 0) {
+			// I valori sono in ordine di priorità decrescente
+			const weights = line.replace(/^Optimization:\s*/, "").split(/\s+/).map(w => parseInt(w));
+			models[models.length - 1].cost = weights.map((weight, j) => ({ weight, level: weights.length - j }));
+		}
+	});
+
+	const text = lines
+		.filter(line => !/^(clingo version|Reading from|Solving\.\.\.)/.test(line))
+		.join("\n")
+		.trim();
+	const last = models.length > 0 ? models[models.length - 1].atoms : [];
+	return {
+		text,
+		models: mode === "models" ? models : [],
+		consequences: mode === "models" ? [] : last,
+		optimum: /^OPTIMUM FOUND/m.test(stdout)
+	};
+}
+
+// Errori di clingo: "file.lp:3:5-6: error: ..." diventano "line 3: ..." come per DLV
+function cleanClingoErrors(stderr: string): string {
+	return stderr.split("\n")
+		.map(line => {
+			const match = line.match(/:(\d+):\d+(?:-[\d:]+)?:\s*(error|warning|info):\s*(.*)$/);
+			return match ? `Errore:\nline ${match[1]}: ${match[3]}` : "";
+		})
+		.filter(line => line.length > 0)
+		.join("\n");
+}
+
+function buildDlv2Args(file: string, options: SolverRunOptions): string[] {
+	const args = ["--t"];
+	// DLV2: --FB / --FC per le conseguenze brave e cautious; le query non ground richiedono una delle due
+	if (options.mode === "brave") args.push("--FB");
+	else if (options.mode === "cautious" || options.mode === "query") args.push("--FC");
+	else if (options.models !== undefined) args.push("-n", options.models.toString());
+	if (options.hideFacts) args.push("--no-facts");
+	if (options.filter && options.filter.length > 0) args.push(`--filter=${options.filter.join(",")}`);
+	args.push(file);
+	return args;
+}
+
+const SOLVER_BACKENDS: Record<Exclude<SolverId, "custom">, SolverBackend> = {
+	dlv2: {
+		id: "dlv2",
+		name: SOLVER_NAMES.dlv2,
+		modes: ["models", "brave", "cautious", "query"],
+		buildArgs: buildDlv2Args,
+		groundArgs: file => ["--mode=idlv", "--t", file],
+		parseOutput: parseDlvOutput,
+		cleanErrors: cleanDlvErrors,
+		parseDiagnostics: parseDlvDiagnostics,
+	},
+	// DLV classico: opzioni con un solo trattino
+	dlv: {
+		id: "dlv",
+		name: SOLVER_NAMES.dlv,
+		modes: ["models", "brave", "cautious", "query"],
+		buildArgs: (file, options) => {
+			const args = ["-silent"];
+			if (options.mode === "brave" || options.mode === "cautious") args.push(`-${options.mode}`);
+			else if (options.mode === "query") args.push("-cautious");
+			else if (options.models !== undefined) args.push(`-n=${options.models}`);
+			if (options.hideFacts) args.push("-nofacts");
+			if (options.filter && options.filter.length > 0) {
+				args.push(`-filter=${options.filter.map(p => p.split("/")[0]).join(",")}`);
+			}
+			args.push(file);
+			return args;
+		},
+		groundArgs: file => ["-instantiate", file],
+		parseOutput: parseDlvOutput,
+		cleanErrors: cleanDlvErrors,
+		parseDiagnostics: parseDlvDiagnostics,
+	},
+	clingo: {
+		id: "clingo",
+		name: SOLVER_NAMES.clingo,
+		modes: ["models", "brave", "cautious"],
+		buildArgs: (file, options) => {
+			const args = [file];
+			if (options.mode === "brave" || options.mode === "cautious") args.push(`--enum-mode=${options.mode}`);
+			else if (options.models !== undefined) args.push(`--models=${options.models}`);
+			if (options.timeout > 0) args.push(`--time-limit=${Math.ceil(options.timeout / 1000)}`);
+			return args;
+		},
+		groundArgs: file => [file, "--text"],
+		// clingo non ha --filter: il filtro diventa una serie di #show in coda al programma
+		prepareProgram: (program, options) => {
+			if (!options.filter || options.filter.length === 0) return program;
+			return `${program}\n${options.filter.map(p => `#show ${p}.`).join(" ")}`;
+		},
+		parseOutput: parseClingoOutput,
+		cleanErrors: cleanClingoErrors,
+		parseDiagnostics: parseClingoDiagnostics,
+	},
+};
+
+// Backend definito da un template, es. "mysolver {file} --models {n} --filter {filter}".
+// Il primo token è l'eseguibile; {n} vale 0 per tutti i modelli e 1 se non specificato.
+function createCustomBackend(template: string, outputFormat: "dlv" | "clingo"): SolverBackend {
+	return {
+		id: "custom",
+		name: SOLVER_NAMES.custom,
+		modes: ["models", "brave", "cautious", "query"],
+		buildArgs: (file, options) => tokenizeFenceInfo(template).slice(1)
+			.map(token => token
+				.replace(/^"(.*)"$/, "$1")
+				.replace(/\{file\}/g, file)
+				.replace(/\{n\}/g, (options.models ?? 1).toString())
+				.replace(/\{filter\}/g, (options.filter || []).join(","))
+				.replace(/\{timeout\}/g, options.timeout.toString())
+				.replace(/\{mode\}/g, options.mode))
+			.filter(token => token.length > 0),
+		parseOutput: outputFormat === "clingo" ? parseClingoOutput : parseDlvOutput,
+		cleanErrors: outputFormat === "clingo" ? cleanClingoErrors : cleanDlvErrors,
+		parseDiagnostics: outputFormat === "clingo" ? parseClingoDiagnostics : parseDlvDiagnostics,
+	};
+}
+
+interface AspTokenizerState {
+	inBlockComment: boolean;
+}
+
+// Stream parser per la sintassi DLV / ASP-Core-2
+const aspStreamParser: StreamParser<AspTokenizerState> = {
+	name: "asp",
+	startState: () => ({ inBlockComment: false }),
+	token(stream, state) {
+		// Commenti multi-riga di DLV2: %* ... *%
+		if (state.inBlockComment) {
+			const end = stream.string.indexOf("*%", stream.pos);
+			if (end < 0) {
+				stream.skipToEnd();
+			} else {
+				stream.pos = end + 2;
+				state.inBlockComment = false;
+			}
+			return "comment";
+		}
+		if (stream.eatSpace()) return null;
+		if (stream.match("%*")) {
+			state.inBlockComment = true;
+			return "comment";
+		}
+		if (stream.match(/^%#\w+/)) return "meta";
+		if (stream.peek() === "%") {
+			stream.skipToEnd();
+			return "comment";
+		}
+		if (stream.match(/^"(?:[^"\\]|\\.)*"?/)) return "string";
+		if (stream.match(/^#[A-Za-z_]+/)) return "keyword";
+		if (stream.match(/^:[-~]/)) return "keyword";
+		// Livello e peso dei weak constraint: [w@l, t1, t2]
+		if (stream.match(/^\[[^\]]*@[^\]]*\]/) || stream.match(/^\[[^\]:]*\]/)) return "weight";
+		if (stream.match(/^not\b/)) return "keyword";
+		if (stream.match(/^[A-Z_][A-Za-z0-9_]*/)) return "variable";
+		if (stream.match(/^\d+/)) return "number";
+		if (stream.match(/^-?[a-z][A-Za-z0-9_]*/)) {
+			return stream.peek() === "(" ? "predicate" : "atom";
+		}
+		if (stream.match(/^(<=|>=|!=|<>|==|\.\.|[=<>+\-*\/|;,.@?:{}()])/)) return "operator";
+		stream.next();
+		return null;
+	}
+};
+
+interface AspTokenRange {
+	from: number;
+	to: number;
+	style: string;
+}
+
+// inBlockComment: il testo inizia dentro un commento %* ... *% aperto prima
+function tokenizeAsp(text: string, inBlockComment = false): AspTokenRange[] {
+	const tokens: AspTokenRange[] = [];
+	const state = aspStreamParser.startState!(2);
+	state.inBlockComment = inBlockComment;
+	let offset = 0;
+
+	for (const line of text.split("\n")) {
+		const stream = new StringStream(line, 4, 2);
+		while (!stream.eol()) {
+			stream.start = stream.pos;
+			const style = aspStreamParser.token(stream, state);
+			if (stream.pos === stream.start) stream.next();
+			if (style) tokens.push({ from: offset + stream.start, to: offset + stream.pos, style });
+		}
+		offset += line.length + 1;
+	}
+	return tokens;
+}
+
+// Predicati usati in un programma, con le arità trovate (i simboli di funzione annidati sono esclusi)
+function collectPredicates(program: string, predicates: Map<string, Set<number>> = new Map()) {
+	const add = (name: string, arity: number) => {
+		const arities = predicates.get(name) || new Set<number>();
+		arities.add(arity);
+		predicates.set(name, arities);
+	};
+
+	let depth = 0;
+	let afterConst = false;
+	for (const token of tokenizeAsp(program)) {
+		const text = program.slice(token.from, token.to);
+		if (token.style === "operator") {
+			if (text === "(") depth++;
+			else if (text === ")") depth = Math.max(0, depth - 1);
+			continue;
+		}
+		if (token.style === "keyword") {
+			afterConst = text === "#const";
+			continue;
+		}
+		if (depth > 0) continue;
+
+		if (token.style === "predicate") {
+			const close = findClosingParen(program, token.to);
+			add(text.replace(/^-/, ""), splitTopLevel(program.slice(token.to + 1, close)).length);
+		} else if (token.style === "atom" && !afterConst) {
+			add(text.replace(/^-/, ""), 0);
+		}
+		afterConst = false;
+	}
+	return predicates;
+}
+
+function findClosingParen(text: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < text.length; i++) {
+		if (text[i] === "(") depth++;
+		else if (text[i] === ")" && --depth === 0) return i;
+	}
+	return text.length;
+}
+
+// Variabili della regola che contiene la posizione (la regola termina al primo "." di livello zero)
+function collectRuleVariables(program: string, pos: number): string[] {
+	let start = 0;
+	let end = program.length;
+	for (const token of tokenizeAsp(program)) {
+		if (token.style !== "operator" || program.slice(token.from, token.to) !== ".") continue;
+		if (token.to <= pos) start = token.to;
+		else if (token.from >= pos) {
+			end = token.from;
+			break;
+		}
+	}
+
+	const rule = program.slice(start, end);
+	const variables = new Set<string>();
+	for (const token of tokenizeAsp(rule)) {
+		const name = rule.slice(token.from, token.to);
+		if (token.style === "variable" && name !== "_" && start + token.to !== pos) variables.add(name);
+	}
+	return Array.from(variables);
+}
+
+interface CheckDiagnostic {
+	from: number;
+	to: number;
+	severity: "error" | "warning" | "info";
+	message: string;
+}
+
+interface AspToken extends AspTokenRange {
+	text: string;
+}
+
+interface AspAtomOccurrence {
+	key: string;            // nome/arità
+	name: string;
+	arity: number;
+	from: number;
+	to: number;
+}
+
+interface AspLiteralInfo {
+	kind: "atom" | "negated" | "builtin" | "aggregate";
+	atoms: AspAtomOccurrence[];
+	variables: AspToken[];
+	assigns?: { variable: string; dependsOn: string[] }[];   // "X = Y" lega X se Y è sicura e viceversa
+	elements?: AspConditionalElement[];
+}
+
+// Elemento condizionale: "a(X) : b(X), not c(X)" in un aggregato o in una testa di scelta
+interface AspConditionalElement {
+	atoms: AspAtomOccurrence[];
+	variables: AspToken[];
+	conditions: AspLiteralInfo[];
+}
+
+interface AspStatement {
+	kind: "rule" | "weak" | "directive" | "query";
+	from: number;           // posizione nel programma, senza il punto finale
+	to: number;
+	head: AspAtomOccurrence[];
+	headVariables: AspToken[];
+	headElements: AspConditionalElement[];
+	body: AspLiteralInfo[];
+	weightVariables: AspToken[];
+	shows: string[];
+}
+
+const AGGREGATE_FUNCTIONS = ["#count", "#sum", "#min", "#max", "#times"];
+
+function isOpen(token: AspToken) {
+	return token.style === "operator" && (token.text === "(" || token.text === "{");
+}
+
+function isClose(token: AspToken) {
+	return token.style === "operator" && (token.text === ")" || token.text === "}");
+}
+
+// Divide i token sui separatori di livello zero (parentesi tonde e graffe)
+function splitTokens(tokens: AspToken[], separators: string[]): AspToken[][] {
+	const parts: AspToken[][] = [[]];
+	let depth = 0;
+	for (const token of tokens) {
+		if (isOpen(token)) depth++;
+		else if (isClose(token)) depth--;
+		if (depth === 0 && separators.includes(token.text) && token.style !== "string") {
+			parts.push([]);
+		} else {
+			parts[parts.length - 1].push(token);
+		}
+	}
+	return parts.filter(part => part.length > 0);
+}
+
+// "v" separa due letterali di testa solo se è un token isolato tra due letterali completi:
+// in "v(X) :- ..." o "p(v)" è un predicato o una costante
+function splitOnDisjunctionV(tokens: AspToken[]): AspToken[][] {
+	const parts: AspToken[][] = [[]];
+	let depth = 0;
+	tokens.forEach((token, i) => {
+		if (isOpen(token)) depth++;
+		else if (isClose(token)) depth--;
+		const previous = tokens[i - 1];
+		const next = tokens[i + 1];
+		const separator = depth === 0 && token.text === "v" && token.style !== "string"
+			&& previous !== undefined && next !== undefined
+			&& (previous.style !== "operator" || previous.text === ")")
+			&& (next.style !== "operator" || next.text === "-");
+		if (separator) parts.push([]);
+		else parts[parts.length - 1].push(token);
+	});
+	return parts.filter(part => part.length > 0);
+}
+
+function findTopLevel(tokens: AspToken[], texts: string[]): number {
+	let depth = 0;
+	for (let i = 0; i < tokens.length; i++) {
+		if (isOpen(tokens[i])) depth++;
+		else if (isClose(tokens[i])) depth--;
+		else if (depth === 0 && texts.includes(tokens[i].text) && tokens[i].style !== "string") return i;
+	}
+	return -1;
+}
+
+function variablesOf(tokens: AspToken[]): AspToken[] {
+	return tokens.filter(token => token.style === "variable" && token.text !== "_");
+}
+
+function parseAtomOccurrence(tokens: AspToken[], program: string): AspAtomOccurrence | null {
+	// Negazione classica: "-p(X)" è un predicato distinto da "p(X)"
+	if (tokens[0]?.text === "-" && tokens.length > 1) {
+		const atom = parseAtomOccurrence(tokens.slice(1), program);
+		return atom && { ...atom, key: `-${atom.key}`, name: `-${atom.name}`, from: tokens[0].from };
+	}
+	const first = tokens[0];
+	if (!first || (first.style !== "predicate" && first.style !== "atom")) return null;
+	if (first.style === "atom") {
+		return { key: `${first.text}/0`, name: first.text, arity: 0, from: first.from, to: first.to };
+	}
+	const close = findClosingParen(program, first.to);
+	const arity = splitTopLevel(program.slice(first.to + 1, close)).length;
+	return { key: `${first.text}/${arity}`, name: first.text, arity, from: first.from, to: Math.min(close + 1, program.length) };
+}
+
+function parseConditionalElement(tokens: AspToken[], program: string): AspConditionalElement {
+	const colon = findTopLevel(tokens, [":"]);
+	const termTokens = colon < 0 ? tokens : tokens.slice(0, colon);
+	const conditions = colon < 0
+		? []
+		: splitTokens(tokens.slice(colon + 1), [","]).map(part => parseLiteral(part, program));
+	const atom = parseAtomOccurrence(termTokens, program);
+	return {
+		atoms: atom ? [atom] : [],
+		variables: variablesOf(tokens),
+		conditions
+	};
+}
+
+function parseLiteral(tokens: AspToken[], program: string): AspLiteralInfo {
+	const variables = variablesOf(tokens);
+	const aggregateIndex = tokens.findIndex(t => t.style === "keyword" && AGGREGATE_FUNCTIONS.includes(t.text));
+
+	if (aggregateIndex >= 0) {
+		const open = aggregateIndex + 1;
+		let depth = 0;
+		let close = tokens.length;
+		for (let i = open; i < tokens.length; i++) {
+			if (isOpen(tokens[i])) depth++;
+			else if (isClose(tokens[i]) && --depth === 0) {
+				close = i;
+				break;
+			}
+		}
+		const elements = splitTokens(tokens.slice(open + 1, close), [";"])
+			.map(part => parseConditionalElement(part, program));
+		const guards = [...tokens.slice(0, aggregateIndex), ...tokens.slice(close + 1)];
+
+		// "X = #count{...}" oppure "#count{...} = X"
+		const guardVariables = variablesOf(guards);
+		const equals = guards.some(t => t.text === "=" || t.text === "==");
+		return {
+			kind: "aggregate",
+			atoms: elements.flatMap(e => e.conditions.flatMap(c => c.atoms)),
+			variables: guardVariables,
+			assigns: equals && guardVariables.length === 1 && guards.length === 2
+				? [{ variable: guardVariables[0].text, dependsOn: [] }]
+				: undefined,
+			elements
+		};
+	}
+
+	// Letterale condizionale nel corpo: "p(X) : q(X)", le variabili sono locali come in un aggregato
+	if (findTopLevel(tokens, [":"]) >= 0) {
+		const element = parseConditionalElement(tokens, program);
+		return {
+			kind: "aggregate",
+			atoms: [...element.atoms, ...element.conditions.flatMap(c => c.atoms)],
+			variables: [],
+			elements: [element]
+		};
+	}
+
+	if (tokens[0]?.style === "keyword" && tokens[0].text === "not") {
+		const atom = parseAtomOccurrence(tokens.slice(1), program);
+		return { kind: "negated", atoms: atom ? [atom] : [], variables };
+	}
+
+	const comparison = findTopLevel(tokens, ["=", "==", "!=", "<>", "<", ">", "<=", ">="]);
+	if (comparison < 0) {
+		const atom = parseAtomOccurrence(tokens, program);
+		if (atom) return { kind: "atom", atoms: [atom], variables };
+	}
+
+	// Built-in: un'uguaglianza con una variabile da un lato la rende sicura se lo è l'altro lato
+	const assigns: NonNullable<AspLiteralInfo["assigns"]> = [];
+	if (comparison >= 0 && (tokens[comparison].text === "=" || tokens[comparison].text === "==")) {
+		const left = tokens.slice(0, comparison);
+		const right = tokens.slice(comparison + 1);
+		if (left.length === 1 && left[0].style === "variable") {
+			assigns.push({ variable: left[0].text, dependsOn: variablesOf(right).map(v => v.text) });
+		}
+		if (right.length === 1 && right[0].style === "variable") {
+			assigns.push({ variable: right[0].text, dependsOn: variablesOf(left).map(v => v.text) });
+		}
+	}
+	return { kind: "builtin", atoms: [], variables, assigns: assigns.length > 0 ? assigns : undefined };
+}
+
+function parseHead(tokens: AspToken[], program: string): Pick<AspStatement, "head" | "headVariables" | "headElements"> {
+	const braceOpen = tokens.findIndex(t => t.style === "operator" && t.text === "{");
+
+	// Testa di scelta: "1 { a(X) : b(X) ; c } 2"
+	if (braceOpen >= 0) {
+		const braceClose = tokens.map(t => t.text).lastIndexOf("}");
+		const elements = splitTokens(tokens.slice(braceOpen + 1, braceClose), [";"])
+			.map(part => parseConditionalElement(part, program));
+		return {
+			head: elements.flatMap(e => e.atoms),
+			headVariables: variablesOf([...tokens.slice(0, braceOpen), ...tokens.slice(braceClose + 1)]),
+			headElements: elements
+		};
+	}
+
+	// Disgiunzione: "a | b", "a ; b" oppure "a v b" (DLV)
+	const parts = splitTokens(tokens, ["|", ";"]).flatMap(splitOnDisjunctionV);
+	const head: AspAtomOccurrence[] = [];
+	const headVariables: AspToken[] = [];
+	const headElements: AspConditionalElement[] = [];
+	for (const part of parts) {
+		if (findTopLevel(part, [":"]) >= 0) {
+			const element = parseConditionalElement(part, program);
+			headElements.push(element);
+			head.push(...element.atoms);
+		} else {
+			const atom = parseAtomOccurrence(part, program);
+			if (atom) head.push(atom);
+			headVariables.push(...variablesOf(part));
+		}
+	}
+	return { head, headVariables, headElements };
+}
+
+// Parser ASP a livello di token: regole, vincoli, weak constraint, direttive e query
+function parseAspProgram(program: string): AspStatement[] {
+	const tokens: AspToken[] = tokenizeAsp(program)
+		.filter(token => token.style !== "comment" && token.style !== "meta")
+		.map(token => ({ ...token, text: program.slice(token.from, token.to) }));
+
+	const statements: AspStatement[] = [];
+	let current: AspToken[] = [];
+	let depth = 0;
+
+	const finish = (kind: "rule" | "query") => {
+		if (current.length === 0) return;
+		statements.push(parseStatement(current, program, kind));
+		current = [];
+	};
+
+	for (const token of tokens) {
+		// Il peso di un weak constraint segue il punto: "[w@l]" appartiene alla regola precedente
+		if (token.style === "weight" && current.length === 0 && statements.length > 0) {
+			const last = statements[statements.length - 1];
+			if (last.kind === "weak") {
+				last.weightVariables = variablesOf(tokenizeAsp(token.text.slice(1, -1)).map(t => ({
+					...t,
+					from: token.from + 1 + t.from,
+					to: token.from + 1 + t.to,
+					text: token.text.slice(1 + t.from, 1 + t.to)
+				})));
+				last.to = token.to;
+				continue;
+			}
+		}
+		if (isOpen(token)) depth++;
+		else if (isClose(token)) depth--;
+
+		if (depth === 0 && token.style === "operator" && (token.text === "." || token.text === "?")) {
+			finish(token.text === "?" ? "query" : "rule");
+		} else {
+			current.push(token);
+		}
+	}
+	finish("rule");
+	return statements;
+}
+
+function parseStatement(tokens: AspToken[], program: string, kind: "rule" | "query"): AspStatement {
+	const statement: AspStatement = {
+		kind,
+		from: tokens[0].from,
+		to: tokens[tokens.length - 1].to,
+		head: [],
+		headVariables: [],
+		headElements: [],
+		body: [],
+		weightVariables: [],
+		shows: []
+	};
+
+	const first = tokens[0];
+	if (first.style === "keyword" && first.text.startsWith("#") && !AGGREGATE_FUNCTIONS.includes(first.text)) {
+		statement.kind = "directive";
+		// "#show p/2."
+		if (first.text === "#show" && tokens.length === 4 && tokens[2].text === "/") {
+			statement.shows.push(`${tokens[1].text}/${tokens[3].text}`);
+		}
+		return statement;
+	}
+
+	if (kind === "query") {
+		statement.body = splitTokens(tokens, [","]).map(part => parseLiteral(part, program));
+		return statement;
+	}
+
+	const weak = first.style === "keyword" && first.text === ":~";
+	const arrow = weak ? 0 : findTopLevel(tokens, [":-"]);
+	if (weak) statement.kind = "weak";
+
+	if (arrow !== 0) Object.assign(statement, parseHead(arrow < 0 ? tokens : tokens.slice(0, arrow), program));
+	if (arrow >= 0) {
+		statement.body = splitTokens(tokens.slice(arrow + 1), [",", ";"]).map(part => parseLiteral(part, program));
+	}
+	return statement;
+}
+
+function checkSafety(statement: AspStatement): CheckDiagnostic[] {
+	const bound = new Set<string>();
+	statement.body
+		.filter(literal => literal.kind === "atom")
+		.forEach(literal => literal.variables.forEach(v => bound.add(v.text)));
+
+	// Le uguaglianze propagano la sicurezza fino a punto fisso
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const literal of statement.body) {
+			for (const assign of literal.assigns || []) {
+				if (!bound.has(assign.variable) && assign.dependsOn.every(v => bound.has(v))) {
+					bound.add(assign.variable);
+					changed = true;
+				}
+			}
+		}
+	}
+
+	const unsafe = new Map<string, AspToken>();
+	const check = (variables: AspToken[], scope: Set<string>) => variables.forEach(v => {
+		if (!scope.has(v.text) && !unsafe.has(v.text)) unsafe.set(v.text, v);
+	});
+	const checkElement = (element: AspConditionalElement) => {
+		const local = new Set(bound);
+		element.conditions
+			.filter(c => c.kind === "atom")
+			.forEach(c => c.variables.forEach(v => local.add(v.text)));
+		element.conditions
+			.flatMap(c => c.assigns || [])
+			.filter(assign => assign.dependsOn.every(v => local.has(v)))
+			.forEach(assign => local.add(assign.variable));
+		check(element.variables, local);
+	};
+
+	check(statement.headVariables, bound);
+	statement.headElements.forEach(checkElement);
+	for (const literal of statement.body) {
+		if (literal.kind === "negated" || literal.kind === "builtin") check(literal.variables, bound);
+		if (literal.kind === "aggregate") {
+			if (!literal.assigns) check(literal.variables, bound);
+			literal.elements?.forEach(checkElement);
+		}
+	}
+	check(statement.weightVariables, bound);
+
+	return Array.from(unsafe.values()).map(v => ({
+		from: v.from,
+		to: v.to,
+		severity: "error",
+		message: `Variable ${v.text} is unsafe: it does not occur in a positive body literal`
+	}));
+}
+
+// Analisi statica senza solver: variabili unsafe, predicati mai definiti, arità in conflitto, predicati inutilizzati.
+// externalPredicates contiene i predicati (nome/arità) definiti da blocchi o file inclusi.
+function checkAspProgram(program: string, externalPredicates: Set<string> = new Set()): CheckDiagnostic[] {
+	const statements = parseAspProgram(program);
+	const diagnostics: CheckDiagnostic[] = [];
+
+	const defined = new Set<string>(externalPredicates);
+	const used = new Set<string>();
+	const shown = new Set<string>();
+	const bodyAtoms: AspAtomOccurrence[] = [];
+	const headAtoms: AspAtomOccurrence[] = [];
+
+	for (const statement of statements) {
+		statement.shows.forEach(key => shown.add(key));
+		if (statement.kind === "rule" || statement.kind === "weak") diagnostics.push(...checkSafety(statement));
+
+		statement.head.forEach(atom => {
+			defined.add(atom.key);
+			headAtoms.push(atom);
+		});
+		const conditions = statement.headElements.flatMap(e => e.conditions);
+		[...statement.body, ...conditions].forEach(literal => {
+			const atoms = [...literal.atoms, ...(literal.elements || []).flatMap(e => e.atoms)];
+			atoms.forEach(atom => {
+				used.add(atom.key);
+				bodyAtoms.push(atom);
+			});
+		});
+	}
+
+	for (const atom of bodyAtoms) {
+		if (!defined.has(atom.key)) {
+			diagnostics.push({
+				from: atom.from,
+				to: atom.to,
+				severity: "warning",
+				message: `Predicate ${atom.key} is never defined`
+			});
+		}
+	}
+
+	// Arità in conflitto: si segnalano le occorrenze con l'arità meno usata
+	const byName = new Map<string, AspAtomOccurrence[]>();
+	[...headAtoms, ...bodyAtoms].forEach(atom => byName.set(atom.name, [...(byName.get(atom.name) || []), atom]));
+	byName.forEach((occurrences, name) => {
+		const counts = new Map<number, number>();
+		occurrences.forEach(atom => counts.set(atom.arity, (counts.get(atom.arity) || 0) + 1));
+		if (counts.size < 2) return;
+
+		const main = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+		occurrences
+			.filter(atom => atom.arity !== main)
+			.forEach(atom => diagnostics.push({
+				from: atom.from,
+				to: atom.to,
+				severity: "warning",
+				message: `${name} is used with arity ${atom.arity} here but with arity ${main} elsewhere`
+			}));
+	});
+
+	const reported = new Set<string>();
+	for (const atom of headAtoms) {
+		if (used.has(atom.key) || shown.has(atom.key) || reported.has(atom.key)) continue;
+		reported.add(atom.key);
+		diagnostics.push({
+			from: atom.from,
+			to: atom.to,
+			severity: "info",
+			message: `Predicate ${atom.key} is defined but never used in a rule body`
+		});
+	}
+
+	return diagnostics.sort((a, b) => a.from - b.from);
+}
+
+// Regole ground mostrate al massimo nella vista del grounding
+const GROUND_DISPLAY_LIMIT = 2000;
+
+interface GroundRuleGroup {
+	from: number;               // posizione della regola sorgente, -1 se non attribuita
+	source: string;
+	rules: string[];
+}
+
+interface GroundingReport {
+	groups: GroundRuleGroup[];
+	predicates: { key: string; count: number }[];
+	rules: number;
+	atoms: number;
+}
+
+// Predicati di testa e di corpo di una regola ("not p/1" per i letterali negati)
+function statementSignature(statement: AspStatement) {
+	const body = new Set<string>();
+	for (const literal of statement.body) {
+		if (literal.kind === "negated") literal.atoms.forEach(atom => body.add(`not ${atom.key}`));
+		else literal.atoms.forEach(atom => body.add(atom.key));
+		literal.elements?.forEach(element => {
+			element.atoms.forEach(atom => body.add(atom.key));
+			element.conditions.forEach(condition => condition.atoms.forEach(atom => body.add(atom.key)));
+		});
+	}
+	return { head: new Set(statement.head.map(atom => atom.key)), body };
+}
+
+function isSubset(subset: Set<string>, set: Set<string>) {
+	return Array.from(subset).every(key => set.has(key));
+}
+
+// Attribuisce ogni regola ground alla regola sorgente con gli stessi predicati: il grounder può
+// togliere letterali già veri, quindi basta che i predicati della regola ground siano un sottoinsieme
+function analyzeGrounding(ground: string, source: string): GroundingReport {
+	const compact = (text: string) => text.replace(/\s+/g, "");
+	const sources = parseAspProgram(source)
+		.filter(statement => statement.kind === "rule" || statement.kind === "weak")
+		.map(statement => ({ statement, signature: statementSignature(statement) }));
+	const facts = sources.filter(({ statement }) => statement.body.length === 0 && statement.headVariables.length === 0
+		&& statement.headElements.length === 0 && statement.head.length === 1);
+	const factTexts = new Set(facts.map(({ statement }) => compact(source.slice(statement.from, statement.to))));
+
+	// Le regole sorgente compaiono anche senza istanze; i fatti finiscono in un solo gruppo
+	const statementText = (text: string, statement: AspStatement) =>
+		`${text.slice(statement.from, statement.to)}${statement.kind === "weak" ? "" : "."}`;
+	const groups = new Map<string, GroundRuleGroup>();
+	const groupFor = (key: string, from: number, text: string) => {
+		if (!groups.has(key)) groups.set(key, { from, source: text, rules: [] });
+		return groups.get(key)!;
+	};
+	sources
+		.filter(candidate => !facts.includes(candidate))
+		.forEach(({ statement }) => groupFor(`${statement.from}`, statement.from, statementText(source, statement).replace(/\s+/g, " ")));
+	const atoms = new Map<string, Set<string>>();
+	let rules = 0;
+
+	for (const statement of parseAspProgram(ground)) {
+		if (statement.kind !== "rule" && statement.kind !== "weak") continue;
+		rules++;
+		const text = statementText(ground, statement);
+
+		const occurrences = [
+			...statement.head,
+			...statement.body.flatMap(literal => [
+				...literal.atoms,
+				...(literal.elements || []).flatMap(element => [...element.atoms, ...element.conditions.flatMap(c => c.atoms)])
+			])
+		];
+		occurrences.forEach(atom => {
+			if (!atoms.has(atom.key)) atoms.set(atom.key, new Set());
+			atoms.get(atom.key)!.add(compact(ground.slice(atom.from, atom.to)));
+		});
+
+		if (facts.length > 0 && statement.body.length === 0 && factTexts.has(compact(ground.slice(statement.from, statement.to)))) {
+			groupFor("facts", facts[0].statement.from, "Facts").rules.push(text);
+			continue;
+		}
+		const signature = statementSignature(statement);
+		let best: typeof sources[number] | null = null;
+		let bestExtra = Infinity;
+		for (const candidate of sources) {
+			if (candidate.statement.kind !== statement.kind) continue;
+			if ((candidate.signature.head.size === 0) !== (signature.head.size === 0)) continue;
+			if (!isSubset(signature.head, candidate.signature.head) || !isSubset(signature.body, candidate.signature.body)) continue;
+			const extra = candidate.signature.head.size - signature.head.size + candidate.signature.body.size - signature.body.size;
+			if (extra < bestExtra) {
+				best = candidate;
+				bestExtra = extra;
+			}
+		}
+		if (best) {
+			const from = best.statement.from;
+			groupFor(`${from}`, from, statementText(source, best.statement).replace(/\s+/g, " ")).rules.push(text);
+		} else {
+			groupFor("other", -1, "Other rules").rules.push(text);
+		}
+	}
+
+	return {
+		groups: Array.from(groups.values()).sort((a, b) => (a.from < 0 ? Infinity : a.from) - (b.from < 0 ? Infinity : b.from)),
+		predicates: Array.from(atoms.entries())
+			.map(([key, set]) => ({ key, count: set.size }))
+			.sort((a, b) => b.count - a.count || a.key.localeCompare(b.key)),
+		rules,
+		atoms: Array.from(atoms.values()).reduce((sum, set) => sum + set.size, 0)
+	};
+}
+
+const ASP_SNIPPETS: Completion[] = [
+	snippetCompletion("#count{${Vars} : ${body}}", { label: "#count", detail: "aggregate", type: "keyword" }),
+	snippetCompletion("#sum{${Weight},${Vars} : ${body}}", { label: "#sum", detail: "aggregate", type: "keyword" }),
+	snippetCompletion("#min{${Value} : ${body}}", { label: "#min", detail: "aggregate", type: "keyword" }),
+	snippetCompletion("#max{${Value} : ${body}}", { label: "#max", detail: "aggregate", type: "keyword" }),
+	snippetCompletion("#const ${name}=${value}.", { label: "#const", detail: "directive", type: "keyword" }),
+	snippetCompletion("#show ${predicate}/${arity}.", { label: "#show", detail: "directive", type: "keyword" }),
+];
+
+// Reading view: sostituisce il testo dell'elemento con span colorati
+function renderHighlightedAsp(el: HTMLElement, text: string) {
+	el.empty();
+	let pos = 0;
+	for (const token of tokenizeAsp(text)) {
+		if (token.from > pos) el.appendText(text.slice(pos, token.from));
+		el.createSpan({ cls: `dlv-asp-${token.style}`, text: text.slice(token.from, token.to) });
+		pos = token.to;
+	}
+	if (pos < text.length) el.appendText(text.slice(pos));
+}
+
+// Reading view: come renderHighlightedAsp, ma evidenzia le righe indicate (1-based)
+function renderHighlightedAspLines(el: HTMLElement, text: string, highlighted: Set<number>) {
+	el.empty();
+	const lines = text.split("\n");
+	lines.forEach((line, i) => {
+		const span = el.createSpan({ cls: highlighted.has(i + 1) ? "dlv-conflict-line" : "" });
+		renderHighlightedAsp(span, i < lines.length - 1 ? `${line}\n` : line);
+	});
+}
+
+interface UnsatExplanation {
+	status: "satisfiable" | "conflict" | "outside" | "error";
+	statements: { line: number; text: string }[];   // insieme minimo di regole in conflitto
+	runs: number;
+	incomplete: boolean;        // qualche esecuzione è andata in timeout
+	message?: string;
+}
+
+// Regole e vincoli del blocco che possono rendere il programma inconsistente (non fatti, direttive o weak constraint)
+function findConflictCandidates(content: string): AspStatement[] {
+	return parseAspProgram(content).filter(statement =>
+		statement.kind === "rule" && (statement.body.length > 0 || statement.head.length === 0));
+}
+
+// Sostituisce le regole con spazi, così i numeri di riga degli errori non cambiano
+function withoutStatements(content: string, statements: AspStatement[]): string {
+	let text = content;
+	for (const statement of statements) {
+		const dot = text.indexOf(".", statement.to);
+		const end = dot >= 0 ? dot + 1 : statement.to;
+		text = text.slice(0, statement.from) + text.slice(statement.from, end).replace(/[^\n]/g, " ") + text.slice(end);
+	}
+	return text;
+}
+
+// Delta debugging (ddmin): riduce items a un sottoinsieme 1-minimale per cui fails è ancora vero
+async function deltaDebug<T>(items: T[], fails: (subset: T[]) => Promise<boolean>): Promise<T[]> {
+	let current = items;
+	let granularity = 2;
+	while (current.length >= 2) {
+		const size = Math.ceil(current.length / granularity);
+		const chunks: T[][] = [];
+		for (let i = 0; i < current.length; i += size) chunks.push(current.slice(i, i + size));
+
+		let reduced = false;
+		for (const chunk of chunks) {
+			if (await fails(chunk)) {
+				current = chunk;
+				granularity = 2;
+				reduced = true;
+				break;
+			}
+		}
+		// Con due parti i complementi coincidono con le parti già provate
+		if (!reduced && chunks.length > 2) {
+			for (let i = 0; i < chunks.length; i++) {
+				const complement = chunks.filter((_, j) => j !== i).flat();
+				if (await fails(complement)) {
+					current = complement;
+					granularity = Math.max(granularity - 1, 2);
+					reduced = true;
+					break;
+				}
+			}
+		}
+		if (!reduced) {
+			if (granularity >= current.length) break;
+			granularity = Math.min(current.length, granularity * 2);
+		}
+	}
+	return current;
+}
+
+// Compatibilità di un eseguibile con la piattaforma dal nome del file:
+// -1 = incompatibile, altrimenti un punteggio (più alto = più adatto)
+function getExecutableScore(filename: string, platform: string, arch: string): number {
+	const name = filename.toLowerCase();
+	const platforms: Record<string, RegExp> = {
+		// "win" solo come parola a sé: "darwin" non è Windows
+		win32: /\.exe$|(^|[^a-z])win(dows|32|64)?([^a-z]|$)/,
+		darwin: /mac|darwin|osx/,
+		linux: /linux/
+	};
+	const archs: Record<string, RegExp> = {
+		arm64: /arm64|aarch64/,
+		x64: /x86[-_]?64|x64|amd64/
+	};
+
+	const namedPlatform = Object.keys(platforms).find(p => platforms[p].test(name));
+	if (namedPlatform && namedPlatform !== platform) return -1;
+	// Un nome senza piattaforma (es. "dlv") va bene ovunque tranne che su Windows
+	if (!namedPlatform && platform === "win32") return -1;
+
+	const namedArch = Object.keys(archs).find(a => archs[a].test(name));
+	let score = namedPlatform ? 2 : 1;
+	if (namedArch === arch) score += 2;
+	// Su macOS arm64 i binari x86_64 girano con Rosetta
+	else if (namedArch && !(platform === "darwin" && arch === "arm64" && namedArch === "x64")) return -1;
+	return score;
+}
+
+// Per quanto tempo la versione di un solver nel PATH vale senza chiederla di nuovo
+const SOLVER_VERSION_TTL = 60000;
+
+// Cache LRU dei risultati: la Map mantiene l'ordine di inserimento, il primo elemento è il meno recente
+class ResultCache {
+	private entries = new Map<string, DlvResult>();
+
+	constructor(private maxEntries: number) {}
+
+	get(key: string): DlvResult | undefined {
+		const result = this.entries.get(key);
+		if (result) {
+			this.entries.delete(key);
+			this.entries.set(key, result);
+		}
+		return result;
+	}
+
+	set(key: string, result: DlvResult) {
+		this.entries.delete(key);
+		this.entries.set(key, result);
+		this.evict();
+	}
+
+	setLimit(maxEntries: number) {
+		this.maxEntries = maxEntries;
+		this.evict();
+	}
+
+	clear() {
+		this.entries.clear();
+	}
+
+	get size() {
+		return this.entries.size;
+	}
+
+	toJSON(): [string, DlvResult][] {
+		return Array.from(this.entries.entries());
+	}
+
+	load(entries: [string, DlvResult][]) {
+		entries.forEach(([key, result]) => this.entries.set(key, result));
+		this.evict();
+	}
 
-const execAsync = promisify(exec);
+	private evict() {
+		while (this.entries.size > Math.max(0, this.maxEntries)) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+}
 
-interface DlvPluginSettings {
-	dlvLocationType: "absolute" | "relative";
-	absolutePath: string;
-	relativeExecutable: string;
-	availableExecutables: string[];
-	executionTimeout: number; // in millisecondi
-	customExtensions: string;
-	showErrors: boolean;
-	showAllModels: boolean;
-	hideFacts: boolean;
-	cacheResults: boolean;
+type JobStatus = "queued" | "running";
+
+interface Job {
+	id: number;
+	label: string;
+	status: JobStatus;
+	controller: AbortController;
+	created: number;
+	started?: number;
+	start?: () => void;
+	detach?: () => void;    // rimuove il listener "abort" registrato da acquire
 }
 
-const DEFAULT_SETTINGS: DlvPluginSettings = {
-	dlvLocationType: "relative",
-	absolutePath: "",
-	relativeExecutable: "executables/dlv.exe",
-	availableExecutables: [],
-	executionTimeout: 0,
-	customExtensions: "asp",
-	showErrors: false,
-	showAllModels: false,
-	hideFacts: false,
-	cacheResults: true,
-};
+// Coda FIFO delle esecuzioni: al massimo "limit" solver in parallelo (0 = nessun limite)
+class JobQueue {
+	private jobs: Job[] = [];
+	private nextId = 1;
+
+	constructor(private limit: number, private onChange: () => void) {}
+
+	add(label: string, controller: AbortController): Job {
+		const job: Job = { id: this.nextId++, label, status: "queued", controller, created: Date.now() };
+		this.jobs.push(job);
+		this.onChange();
+		return job;
+	}
+
+	// Attende un posto libero; se il job viene annullato mentre è in coda la promessa viene rifiutata
+	acquire(job: Job): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const signal = job.controller.signal;
+			if (signal.aborted) return reject(new Error("Execution aborted"));
+			const onAbort = () => reject(new Error("Execution aborted"));
+			signal.addEventListener("abort", onAbort, { once: true });
+			job.detach = () => signal.removeEventListener("abort", onAbort);
+			job.start = () => {
+				job.detach?.();
+				resolve();
+			};
+			this.schedule();
+		});
+	}
+
+	finish(job: Job) {
+		job.detach?.();
+		this.jobs = this.jobs.filter(other => other !== job);
+		this.schedule();
+	}
+
+	cancel(id: number) {
+		this.jobs.find(job => job.id === id)?.controller.abort();
+	}
+
+	cancelAll() {
+		const count = this.jobs.length;
+		this.jobs.forEach(job => job.controller.abort());
+		return count;
+	}
+
+	setLimit(limit: number) {
+		this.limit = limit;
+		this.schedule();
+	}
+
+	list(): Job[] {
+		return [...this.jobs];
+	}
+
+	get running() {
+		return this.jobs.filter(job => job.status === "running").length;
+	}
+
+	get queued() {
+		return this.jobs.filter(job => job.status === "queued").length;
+	}
+
+	private schedule() {
+		let running = this.running;
+		for (const job of this.jobs) {
+			if (this.limit > 0 && running >= this.limit) break;
+			if (job.status !== "queued" || !job.start || job.controller.signal.aborted) continue;
+			job.status = "running";
+			job.started = Date.now();
+			job.start();
+			running++;
+		}
+		this.onChange();
+	}
+}
+
+// Nome univoco per i file temporanei, anche per esecuzioni avviate nello stesso millisecondo
+function tempFilePath(prefix: string, extension: string) {
+	return path.join(os.tmpdir(), `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`);
+}
+
+// Etichetta breve di un programma: id del blocco o prima riga significativa
+function describeProgram(content: string, options: BlockOptions) {
+	if (options.id) return `#${options.id}`;
+	const firstLine = content.split("\n").map(line => line.trim()).find(line => line && !line.startsWith("%")) || "";
+	return firstLine.slice(0, 40);
+}
 
 class NewScriptModal extends Modal {
 	plugin: any;
@@ -112,77 +2223,796 @@ class NewScriptModal extends Modal {
 	}
 }
 
-class CodeBlockWidget extends WidgetType {
-	private abortController: AbortController | null = null;
+// Elenco delle esecuzioni in corso e in coda, ognuna annullabile
+class DlvJobsModal extends Modal {
+	private timer: number | null = null;
+
+	constructor(app: App, private plugin: DlvPlugin) {
+		super(app);
+	}
+
+	onOpen() {
+		this.render();
+		this.timer = window.setInterval(() => this.render(), 1000);
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("dlv-jobs");
+		contentEl.createEl('h2', { text: 'DLV Executions' });
+
+		const jobs = this.plugin.jobs.list();
+		if (jobs.length === 0) {
+			contentEl.createDiv({ cls: "dlv-jobs-empty", text: "No execution is running or queued" });
+			return;
+		}
+
+		const now = Date.now();
+		jobs.forEach(job => {
+			const seconds = Math.round((now - (job.started ?? job.created)) / 1000);
+			new Setting(contentEl)
+				.setName(job.label)
+				.setDesc(job.status === "running" ? `Running for ${seconds}s` : `Queued for ${seconds}s`)
+				.addButton(button => button
+					.setButtonText(job.controller.signal.aborted ? "Cancelling…" : "Cancel")
+					.setDisabled(job.controller.signal.aborted)
+					.onClick(() => {
+						this.plugin.jobs.cancel(job.id);
+						this.render();
+					}));
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText("Cancel all")
+				.setWarning()
+				.onClick(() => {
+					this.plugin.jobs.cancelAll();
+					this.render();
+				}));
+	}
+
+	onClose() {
+		if (this.timer !== null) window.clearInterval(this.timer);
+		this.timer = null;
+		this.contentEl.empty();
+		this.plugin.jobsModal = null;
+	}
+}
 
+class CodeBlockWidget extends WidgetType {
 	constructor(
 		private plugin: DlvPlugin,
 		private lang: string,
+		private options: BlockOptions,
 		private start: number,
 		private end: number,
-		private docText: string
+		private docText: string,
+		private sourcePath: string
 	) { super(); }
 
-	toDOM() {
-		const { header, outputPre, copyBtn } = this.plugin.createCodeBlockUI(this.lang);
-		const runBtn = header.querySelector('.run-btn') as HTMLButtonElement;
-		const saveBtn = header.querySelector('.save-btn') as HTMLButtonElement;
-		const stopBtn = header.querySelector('.stop-btn') as HTMLButtonElement;
+	toDOM(view: EditorView) {
+		const ui = this.plugin.createCodeBlockUI(this.lang, this.options.mode);
+		// Niente trim iniziale: le righe degli errori devono corrispondere a quelle del blocco
+		const controls = this.plugin.bindCodeBlockUI(
+			ui,
+			this.lang,
+			this.options,
+			this.sourcePath,
+			() => this.docText.slice(this.start, this.end).replace(/\s+$/, ""),
+			{
+				onResult: result => this.plugin.applyDiagnostics(view, this.start, this.end, result.diagnostics),
+				onDiagnosticClick: diagnostic => this.plugin.revealDiagnosticInEditor(view, this.start, diagnostic),
+				onSave: async result => this.plugin.saveResultInEditor(view, this.end, result),
+				onHighlight: diagnostics => this.plugin.applyDiagnostics(view, this.start, this.end, diagnostics)
+			}
+		);
 
-		const toggleButtons = (running: boolean) => {
-			runBtn.disabled = running;
-			saveBtn.disabled = running;
-			stopBtn.style.display = running ? 'block' : 'none';
-			(runBtn.querySelector('.btn-text') as HTMLElement).textContent = running ? 'Running' : '▶ Run';
-			runBtn.classList.toggle('running', running);
+		const container = document.createElement("div");
+		container.className = "dlv-codeblock";
+		container.dataset.blockEnd = this.end.toString();
+		container.append(ui.header, ui.outputPre);
+		this.plugin.blockControls.set(container, controls);
+		return container;
+	}
+
+	eq(other: CodeBlockWidget) {
+		return this.start === other.start && this.end === other.end && this.lang === other.lang &&
+			this.sourcePath === other.sourcePath &&
+			JSON.stringify(this.options) === JSON.stringify(other.options);
+	}
+}
+
+type TestAssertion =
+	| { kind: "models"; count: number; line: number }
+	| { kind: "every" | "some" | "none"; atoms: string[]; line: number }
+	| { kind: "unsat"; line: number };
+
+interface TestOutcome {
+	path: string;
+	line: number;               // riga (0-based) del fence del blocco di test
+	name: string;
+	status: "pass" | "fail" | "error";
+	failures: string[];         // righe di diff: "- atteso", "+ trovato"
+	duration: number;
+}
+
+// Il linguaggio di un blocco di test è quello del programma: "asp-test" → "asp"
+function getTestBlockLanguage(lang: string): string | null {
+	return lang.endsWith("-test") ? lang.slice(0, -"-test".length) : null;
+}
+
+function normalizeAtom(text: string): string {
+	return text.replace(/("[^"]*")|\s+/g, (_, quoted) => quoted || "");
+}
+
+function atomToString(atom: AspAtom): string {
+	return normalizeAtom(atom.args.length > 0 ? `${atom.predicate}(${atom.args.join(",")})` : atom.predicate);
+}
+
+// Asserzioni come commenti ASP, così il blocco resta un programma valido:
+// "% assert models 2", "% assert every p(1)", "% assert some p(1), q", "% assert none r", "% assert unsat"
+function parseTestAssertions(content: string): TestAssertion[] {
+	const assertions: TestAssertion[] = [];
+	content.split("\n").forEach((text, line) => {
+		const match = text.match(/^\s*%\s*assert\s+(models|every|some|none|unsat)\b\s*=?\s*(.*)$/i);
+		if (!match) return;
+
+		const kind = match[1].toLowerCase();
+		const value = match[2].trim().replace(/\.$/, "");
+		if (kind === "models") {
+			const count = parseInt(value);
+			if (!isNaN(count)) assertions.push({ kind, count, line });
+		} else if (kind === "unsat") {
+			assertions.push({ kind, line });
+		} else {
+			const atoms = splitTopLevel(value).map(normalizeAtom).filter(atom => atom.length > 0);
+			if (atoms.length > 0) assertions.push({ kind: kind as "every" | "some" | "none", atoms, line });
+		}
+	});
+	return assertions;
+}
+
+// Confronta gli answer set con le asserzioni e restituisce le differenze (vuoto = test superato)
+function evaluateTestAssertions(models: AnswerSet[], assertions: TestAssertion[]): string[] {
+	const failures: string[] = [];
+	const sets = models.map(model => new Set(model.atoms.map(atomToString)));
+
+	for (const assertion of assertions) {
+		switch (assertion.kind) {
+			case "models":
+				if (models.length !== assertion.count) {
+					failures.push(`- ${assertion.count} answer set${assertion.count === 1 ? "" : "s"}`);
+					failures.push(`+ ${models.length} answer set${models.length === 1 ? "" : "s"}`);
+				}
+				break;
+			case "unsat":
+				if (models.length > 0) {
+					failures.push("- unsatisfiable");
+					failures.push(`+ ${models.length} answer set${models.length === 1 ? "" : "s"}`);
+				}
+				break;
+			case "every":
+				assertion.atoms.forEach(atom => {
+					const missing = sets.map((set, i) => set.has(atom) ? -1 : i + 1).filter(i => i > 0);
+					if (sets.length === 0) failures.push(`- ${atom} in every answer set (there are none)`);
+					else if (missing.length > 0) failures.push(`- ${atom} missing in answer set ${missing.join(", ")}`);
+				});
+				break;
+			case "some":
+				assertion.atoms.forEach(atom => {
+					if (!sets.some(set => set.has(atom))) failures.push(`- ${atom} in no answer set`);
+				});
+				break;
+			case "none":
+				assertion.atoms.forEach(atom => {
+					const found = sets.map((set, i) => set.has(atom) ? i + 1 : -1).filter(i => i > 0);
+					if (found.length > 0) failures.push(`+ ${atom} found in answer set ${found.join(", ")}`);
+				});
+				break;
+		}
+	}
+	return failures;
+}
+
+interface PredicateSpec {
+	name: string;
+	arity: number;
+}
+
+interface GraphNode {
+	id: string;
+	color?: string;
+	label?: string;
+}
+
+interface GraphEdge {
+	from: string;
+	to: string;
+	label?: string;
+}
+
+interface GraphModel {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+}
+
+interface Point {
+	x: number;
+	y: number;
+}
+
+const GRAPH_PALETTE = ["#4e79a7", "#f28e2b", "#e15759", "#76b7b2", "#59a14f", "#edc948", "#b07aa1", "#ff9da7", "#9c755f", "#bab0ac"];
+
+// "arc/2" → { name: "arc", arity: 2 }
+function parsePredicateSpec(spec: string | undefined): PredicateSpec | null {
+	const match = spec?.trim().match(/^(-?[a-z][A-Za-z0-9_]*)\/(\d+)$/);
+	return match ? { name: match[1], arity: parseInt(match[2]) } : null;
+}
+
+function matchesSpec(atom: AspAtom, spec: PredicateSpec | null): boolean {
+	return !!spec && atom.predicate === spec.name && atom.arity === spec.arity;
+}
+
+function unquote(value: string) {
+	return value.replace(/^"(.*)"$/, "$1");
+}
+
+// Colore per un valore: un nome di colore CSS viene usato così com'è, gli altri valori
+// ricevono un colore fisso della palette
+function colorForValue(value: string): string {
+	const text = unquote(value);
+	if (/^#[0-9a-f]{3,8}$/i.test(text) || (/^[a-z]+$/i.test(text) && typeof CSS !== "undefined" && CSS.supports("color", text))) {
+		return text;
+	}
+	let hash = 0;
+	for (const ch of text) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+	return GRAPH_PALETTE[hash % GRAPH_PALETTE.length];
+}
+
+// Nodi: atomi del predicato node (primo argomento) più gli estremi degli archi
+function buildGraph(atoms: AspAtom[], options: GraphOptions): GraphModel {
+	const nodeSpec = parsePredicateSpec(options.node);
+	const edgeSpec = parsePredicateSpec(options.edge);
+	const colorSpec = parsePredicateSpec(options.color);
+	const labelSpec = parsePredicateSpec(options.label);
+
+	const nodes = new Map<string, GraphNode>();
+	const node = (id: string) => {
+		if (!nodes.has(id)) nodes.set(id, { id });
+		return nodes.get(id)!;
+	};
+	const edges: GraphEdge[] = [];
+
+	for (const atom of atoms) {
+		if (matchesSpec(atom, nodeSpec) && atom.args.length > 0) node(atom.args[0]);
+		if (matchesSpec(atom, edgeSpec) && atom.args.length >= 2) {
+			node(atom.args[0]);
+			node(atom.args[1]);
+			edges.push({ from: atom.args[0], to: atom.args[1], label: atom.args[2] && unquote(atom.args[2]) });
+		}
+	}
+	// Colori ed etichette si applicano solo a nodi già presenti
+	for (const atom of atoms) {
+		if (matchesSpec(atom, colorSpec) && atom.args.length >= 2 && nodes.has(atom.args[0])) {
+			nodes.get(atom.args[0])!.color = colorForValue(atom.args[atom.args.length - 1]);
+		}
+		if (matchesSpec(atom, labelSpec) && atom.args.length >= 2 && nodes.has(atom.args[0])) {
+			nodes.get(atom.args[0])!.label = unquote(atom.args[atom.args.length - 1]);
+		}
+	}
+	return { nodes: Array.from(nodes.values()), edges };
+}
+
+// Layout force-directed (Fruchterman-Reingold) deterministico: posizioni iniziali su un cerchio
+function forceLayout(graph: GraphModel, width: number, height: number): Map<string, Point> {
+	const n = graph.nodes.length;
+	const positions = new Map<string, Point>();
+	graph.nodes.forEach((node, i) => positions.set(node.id, {
+		x: width / 2 + (width / 3) * Math.cos((2 * Math.PI * i) / Math.max(n, 1)),
+		y: height / 2 + (height / 3) * Math.sin((2 * Math.PI * i) / Math.max(n, 1))
+	}));
+	if (n < 2) return positions;
+
+	const k = Math.sqrt((width * height) / n) * 0.75;
+	let temperature = width / 10;
+	for (let iteration = 0; iteration < 300; iteration++) {
+		const forces = new Map<string, Point>(graph.nodes.map(node => [node.id, { x: 0, y: 0 }]));
+
+		for (let i = 0; i < n; i++) {
+			for (let j = i + 1; j < n; j++) {
+				const a = positions.get(graph.nodes[i].id)!;
+				const b = positions.get(graph.nodes[j].id)!;
+				const dx = a.x - b.x || 0.01;
+				const dy = a.y - b.y || 0.01;
+				const distance = Math.max(Math.hypot(dx, dy), 0.01);
+				const repulsion = (k * k) / distance;
+				const fa = forces.get(graph.nodes[i].id)!;
+				const fb = forces.get(graph.nodes[j].id)!;
+				fa.x += (dx / distance) * repulsion;
+				fa.y += (dy / distance) * repulsion;
+				fb.x -= (dx / distance) * repulsion;
+				fb.y -= (dy / distance) * repulsion;
+			}
+		}
+		for (const edge of graph.edges) {
+			if (edge.from === edge.to) continue;
+			const a = positions.get(edge.from)!;
+			const b = positions.get(edge.to)!;
+			const dx = a.x - b.x;
+			const dy = a.y - b.y;
+			const distance = Math.max(Math.hypot(dx, dy), 0.01);
+			const attraction = (distance * distance) / k;
+			forces.get(edge.from)!.x -= (dx / distance) * attraction;
+			forces.get(edge.from)!.y -= (dy / distance) * attraction;
+			forces.get(edge.to)!.x += (dx / distance) * attraction;
+			forces.get(edge.to)!.y += (dy / distance) * attraction;
+		}
+
+		// Gravità verso il centro: tiene vicine le componenti non connesse
+		forces.forEach((force, id) => {
+			const position = positions.get(id)!;
+			force.x += (width / 2 - position.x) * 0.05 * (k / 10);
+			force.y += (height / 2 - position.y) * 0.05 * (k / 10);
+			const length = Math.max(Math.hypot(force.x, force.y), 0.01);
+			position.x = Math.max(0, Math.min(width, position.x + (force.x / length) * Math.min(length, temperature)));
+			position.y = Math.max(0, Math.min(height, position.y + (force.y / length) * Math.min(length, temperature)));
+		});
+		temperature *= 0.98;
+	}
+	return fitToBox(positions, width, height);
+}
+
+// Layout a livelli: ogni nodo sta un livello sotto il suo predecessore più profondo
+function layeredLayout(graph: GraphModel, width: number, height: number): Map<string, Point> {
+	// Gli archi all'indietro (trovati con una visita in profondità) non contano: il grafo diventa aciclico
+	const backEdges = new Set<GraphEdge>();
+	const state = new Map<string, "open" | "done">();
+	const visit = (id: string) => {
+		state.set(id, "open");
+		for (const edge of graph.edges.filter(e => e.from === id)) {
+			if (state.get(edge.to) === "open") backEdges.add(edge);
+			else if (!state.has(edge.to)) visit(edge.to);
+		}
+		state.set(id, "done");
+	};
+	graph.nodes.forEach(node => {
+		if (!state.has(node.id)) visit(node.id);
+	});
+	const edges = graph.edges.filter(edge => !backEdges.has(edge));
+
+	const layer = new Map<string, number>(graph.nodes.map(node => [node.id, 0]));
+	for (let pass = 0; pass < graph.nodes.length; pass++) {
+		let changed = false;
+		for (const edge of edges) {
+			const next = layer.get(edge.from)! + 1;
+			if (next > layer.get(edge.to)!) {
+				layer.set(edge.to, next);
+				changed = true;
+			}
+		}
+		if (!changed) break;
+	}
+
+	const layers = new Map<number, string[]>();
+	layer.forEach((index, id) => layers.set(index, [...(layers.get(index) || []), id]));
+	const depth = Math.max(...Array.from(layers.keys())) + 1;
+
+	const positions = new Map<string, Point>();
+	layers.forEach((ids, index) => ids.forEach((id, i) => positions.set(id, {
+		x: ((i + 1) * width) / (ids.length + 1),
+		y: ((index + 1) * height) / (depth + 1)
+	})));
+	return positions;
+}
+
+// Riporta le posizioni dentro il riquadro, con un margine per i nodi e le etichette
+function fitToBox(positions: Map<string, Point>, width: number, height: number, margin = 30): Map<string, Point> {
+	const points = Array.from(positions.values());
+	const minX = Math.min(...points.map(p => p.x));
+	const maxX = Math.max(...points.map(p => p.x));
+	const minY = Math.min(...points.map(p => p.y));
+	const maxY = Math.max(...points.map(p => p.y));
+	const scale = Math.min(
+		(width - 2 * margin) / Math.max(maxX - minX, 1),
+		(height - 2 * margin) / Math.max(maxY - minY, 1)
+	);
+	positions.forEach(point => {
+		point.x = margin + (point.x - minX) * scale + (width - 2 * margin - (maxX - minX) * scale) / 2;
+		point.y = margin + (point.y - minY) * scale + (height - 2 * margin - (maxY - minY) * scale) / 2;
+	});
+	return positions;
+}
+
+interface GridModel {
+	rows: string[];
+	columns: string[];
+	cells: Map<string, string>;         // "riga,colonna" → valore
+	highlighted: Set<string>;
+}
+
+// Ordine di righe e colonne: numerico se tutti i valori sono numeri (righe vuote comprese), altrimenti alfabetico
+function sortGridKeys(keys: Set<string>): string[] {
+	const values = Array.from(keys);
+	if (!values.every(value => /^-?\d+$/.test(value))) return values.sort();
+
+	const numbers = values.map(value => parseInt(value));
+	const min = Math.min(...numbers);
+	const max = Math.max(...numbers);
+	return max - min < 100
+		? Array.from({ length: max - min + 1 }, (_, i) => (min + i).toString())
+		: values.sort((a, b) => parseInt(a) - parseInt(b));
+}
+
+// cell(R,C,V) riempie la cella con V, cell(R,C) la segna soltanto
+function buildGrid(atoms: AspAtom[], options: GridOptions): GridModel | null {
+	const spec = parsePredicateSpec(options.predicate);
+	if (!spec || spec.arity < 2) return null;
+	const highlightSpec = parsePredicateSpec(options.highlight);
+
+	const rows = new Set<string>();
+	const columns = new Set<string>();
+	const cells = new Map<string, string>();
+	const highlighted = new Set<string>();
+	for (const atom of atoms) {
+		if (matchesSpec(atom, spec)) {
+			const [row, column, value] = atom.args;
+			rows.add(row);
+			columns.add(column);
+			cells.set(`${row},${column}`, value === undefined ? "" : unquote(value));
+		}
+		if (matchesSpec(atom, highlightSpec) && atom.args.length >= 2) {
+			highlighted.add(`${atom.args[0]},${atom.args[1]}`);
+		}
+	}
+	return { rows: sortGridKeys(rows), columns: sortGridKeys(columns), cells, highlighted };
+}
+
+// "1:red,2:blue" → { "1": "red", "2": "blue" }
+function parseValueMap(value: string): Record<string, string> {
+	const map: Record<string, string> = {};
+	splitTopLevel(value).forEach(pair => {
+		const colon = pair.lastIndexOf(":");
+		if (colon > 0) map[unquote(pair.slice(0, colon).trim())] = pair.slice(colon + 1).trim();
+	});
+	return map;
+}
+
+// SVG autonomo (colori espliciti, niente variabili CSS) così l'esportazione resta leggibile
+function renderGraphSvg(container: HTMLElement, graph: GraphModel, options: GraphOptions): SVGSVGElement {
+	const width = 600;
+	const height = 400;
+	const positions = options.layout === "layered"
+		? layeredLayout(graph, width, height)
+		: forceLayout(graph, width, height);
+	const radius = 12;
+
+	const svg = container.createSvg("svg", {
+		cls: "dlv-graph",
+		attr: { xmlns: "http://www.w3.org/2000/svg", viewBox: `0 0 ${width} ${height}`, width: "100%" }
+	});
+	if (options.directed) {
+		const marker = svg.createSvg("defs").createSvg("marker", {
+			attr: { id: "dlv-arrow", viewBox: "0 0 10 10", refX: "10", refY: "5", markerWidth: "6", markerHeight: "6", orient: "auto-start-reverse" }
+		});
+		marker.createSvg("path", { attr: { d: "M 0 0 L 10 5 L 0 10 z", fill: "#888888" } });
+	}
+
+	for (const edge of graph.edges) {
+		const a = positions.get(edge.from)!;
+		const b = positions.get(edge.to)!;
+		const distance = Math.max(Math.hypot(b.x - a.x, b.y - a.y), 0.01);
+		// La linea si ferma sul bordo del nodo, così la freccia resta visibile
+		const x2 = b.x - ((b.x - a.x) / distance) * radius;
+		const y2 = b.y - ((b.y - a.y) / distance) * radius;
+		svg.createSvg("line", {
+			attr: {
+				x1: a.x, y1: a.y, x2, y2,
+				stroke: "#888888",
+				"stroke-width": "1.5",
+				...(options.directed ? { "marker-end": "url(#dlv-arrow)" } : {})
+			}
+		});
+		if (edge.label) {
+			svg.createSvg("text", {
+				attr: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 - 4, "text-anchor": "middle", "font-size": "11", fill: "#888888" }
+			}).textContent = edge.label;
+		}
+	}
+
+	for (const node of graph.nodes) {
+		const p = positions.get(node.id)!;
+		const group = svg.createSvg("g");
+		group.createSvg("title").textContent = node.id;
+		group.createSvg("circle", {
+			attr: { cx: p.x, cy: p.y, r: radius, fill: node.color || "#7f6df2", stroke: "#444444", "stroke-width": "1" }
+		});
+		group.createSvg("text", {
+			attr: { x: p.x, y: p.y + radius + 14, "text-anchor": "middle", "font-size": "12", fill: "#888888" }
+		}).textContent = node.label || unquote(node.id);
+	}
+	return svg;
+}
+
+const DLV_TEST_VIEW = "dlv-test-report";
+
+class DlvTestReportView extends ItemView {
+	private outcomes: TestOutcome[] = [];
+	private progress = "";
+
+	constructor(leaf: WorkspaceLeaf, private plugin: DlvPlugin) {
+		super(leaf);
+	}
+
+	getViewType() {
+		return DLV_TEST_VIEW;
+	}
+
+	getDisplayText() {
+		return "DLV tests";
+	}
+
+	getIcon() {
+		return "check-circle";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	setProgress(progress: string) {
+		this.progress = progress;
+		this.render();
+	}
+
+	setOutcomes(outcomes: TestOutcome[]) {
+		this.outcomes = outcomes;
+		this.progress = "";
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("dlv-test-report");
+
+		const header = container.createDiv({ cls: "dlv-test-summary" });
+		if (this.progress) {
+			header.setText(this.progress);
+			return;
+		}
+		const passed = this.outcomes.filter(o => o.status === "pass").length;
+		header.setText(`${passed} passed · ${this.outcomes.length - passed} failed`);
+		header.createEl("button", { text: "Run again" }).onclick = () => this.plugin.runAllTests();
+
+		// Prima i test falliti
+		const sorted = [...this.outcomes].sort((a, b) => Number(a.status === "pass") - Number(b.status === "pass"));
+		for (const outcome of sorted) {
+			const item = container.createEl("details", { cls: `dlv-test is-${outcome.status}` });
+			item.open = outcome.status !== "pass";
+			const summary = item.createEl("summary");
+			summary.createSpan({ cls: "dlv-test-status", text: outcome.status === "pass" ? "✔" : "✘" });
+			summary.appendText(` ${outcome.name} `);
+
+			const link = summary.createEl("a", { text: `${outcome.path}:${outcome.line + 1}` });
+			link.onclick = async (event) => {
+				event.preventDefault();
+				const file = this.app.vault.getAbstractFileByPath(outcome.path);
+				if (file instanceof TFile) {
+					await this.app.workspace.getLeaf(false).openFile(file, { eState: { line: outcome.line } });
+				}
+			};
+			summary.createSpan({ cls: "dlv-test-duration", text: ` ${outcome.duration} ms` });
+
+			if (outcome.failures.length > 0) {
+				const diff = item.createEl("pre", { cls: "dlv-test-diff" });
+				outcome.failures.forEach(line => diff.createDiv({
+					cls: line.startsWith("+") ? "is-added" : line.startsWith("-") ? "is-removed" : "",
+					text: line
+				}));
+			}
+		}
+	}
+}
+
+interface HistoryEntry {
+	id: string;
+	path: string;
+	lang: string;
+	block: string;              // id del blocco o prima riga del programma
+	content: string;
+	options: BlockOptions;
+	timestamp: number;
+	duration: number;           // millisecondi
+	modelCount?: number;        // prima che il risultato venga ridotto
+	result: DlvResult;
+}
+
+// Limiti per voce della cronologia: output e answer set oltre questi valori non vengono salvati
+const HISTORY_OUTPUT_LIMIT = 20000;
+const HISTORY_MODEL_LIMIT = 50;
+const HISTORY_SAVE_DELAY = 2000;
+
+function getHistoryStatus(result: DlvResult): string {
+	if (result.timedOut) return "timeout";
+	if (result.aborted) return "stopped";
+	if (result.stderr.trim() && !result.stdout.trim()) return "error";
+	if (result.cached) return "cached";
+	return `exit ${result.exitCode ?? 0}`;
+}
+
+function getHistoryModelCount(entry: HistoryEntry): number {
+	if (entry.modelCount !== undefined) return entry.modelCount;
+	return entry.result.mode === "models" ? entry.result.models.length : entry.result.consequences.length;
+}
+
+// Risultato ridotto per la cronologia, così history.json resta piccolo anche con output lunghi
+function trimHistoryResult(result: DlvResult): DlvResult {
+	const trim = (text: string) => text.length > HISTORY_OUTPUT_LIMIT
+		? `${text.slice(0, HISTORY_OUTPUT_LIMIT)}\n… (output truncated)`
+		: text;
+	return {
+		...result,
+		stdout: trim(result.stdout),
+		stderr: trim(result.stderr),
+		models: result.models.slice(0, HISTORY_MODEL_LIMIT),
+		consequences: result.consequences.slice(0, HISTORY_MODEL_LIMIT * 20)
+	};
+}
+
+// Confronto tra due esecuzioni: answer set (o righe di output) presenti solo in una delle due
+function compareResults(a: DlvResult, b: DlvResult): string[] {
+	const keys = (result: DlvResult) => {
+		if (result.mode !== "models") return result.consequences.map(atomToString);
+		if (result.models.length > 0) {
+			return result.models.map(model => `{${model.atoms.map(atomToString).sort().join(", ")}}`);
+		}
+		return result.stdout.split("\n").map(line => line.trim()).filter(line => line.length > 0);
+	};
+	const left = keys(a);
+	const right = keys(b);
+	const removed = left.filter(key => !right.includes(key));
+	const added = right.filter(key => !left.includes(key));
+	const common = left.length - removed.length;
+
+	return [
+		`${common} in common`,
+		...removed.map(key => `- ${key}`),
+		...added.map(key => `+ ${key}`)
+	];
+}
+
+const DLV_HISTORY_VIEW = "dlv-execution-history";
+
+class DlvHistoryView extends ItemView {
+	private query = "";
+	private selected: HistoryEntry[] = [];
+	private listEl: HTMLElement;
+	private compareEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, private plugin: DlvPlugin) {
+		super(leaf);
+	}
+
+	getViewType() {
+		return DLV_HISTORY_VIEW;
+	}
+
+	getDisplayText() {
+		return "DLV history";
+	}
+
+	getIcon() {
+		return "history";
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("dlv-history");
+
+		const search = container.createEl("input", {
+			type: "search",
+			cls: "dlv-history-search",
+			attr: { placeholder: "Filter by note" }
+		});
+		search.oninput = () => {
+			this.query = search.value.trim().toLowerCase();
+			this.refresh();
 		};
+		this.compareEl = container.createDiv({ cls: "dlv-history-compare" });
+		this.listEl = container.createDiv();
+		this.refresh();
+	}
+
+	refresh() {
+		if (!this.listEl) return;
+		this.listEl.empty();
+		const entries = this.plugin.history
+			.filter(entry => !this.query || entry.path.toLowerCase().includes(this.query));
+		if (entries.length === 0) {
+			this.listEl.createDiv({ cls: "dlv-history-empty", text: "No executions yet" });
+		}
+		entries.forEach(entry => this.renderEntry(entry));
+		this.renderComparison();
+	}
 
-		runBtn.onclick = async () => {
-			toggleButtons(true);
-			this.abortController = new AbortController();
+	private renderEntry(entry: HistoryEntry) {
+		const result = entry.result;
+		const item = this.listEl.createDiv({ cls: `dlv-history-entry is-${getHistoryStatus(result).split(" ")[0]}` });
+		item.toggleClass("is-selected", this.selected.includes(entry));
 
-			try {
-				const codeContent = this.docText.slice(this.start, this.end).trim();
-				const result = await this.plugin.executeDlv(
-					codeContent,
-					this.lang,
-					this.abortController.signal
-				);
-				this.plugin.updateOutputUI(outputPre, copyBtn, result);
-			} finally {
-				toggleButtons(false);
-				this.abortController = null;
-			}
+		const title = item.createDiv({ cls: "dlv-history-title" });
+		const link = title.createEl("a", { text: entry.path || "Untitled" });
+		link.onclick = async (event) => {
+			event.preventDefault();
+			const file = this.app.vault.getAbstractFileByPath(entry.path);
+			if (file instanceof TFile) await this.app.workspace.getLeaf(false).openFile(file);
 		};
+		title.appendText(` › ${entry.block}`);
 
-		stopBtn.onclick = () => {
-			if (this.abortController) {
-				this.abortController.abort();
-				toggleButtons(false);
-			}
-		};
+		const count = getHistoryModelCount(entry);
+		item.createDiv({
+			cls: "dlv-history-meta",
+			text: [
+				new Date(entry.timestamp).toLocaleString(),
+				`${entry.duration} ms`,
+				`${result.solver}${result.flags ? ` ${result.flags}` : ""}`,
+				getHistoryStatus(result),
+				result.mode === "models" ? `${count} model${count === 1 ? "" : "s"}` : `${count} atoms`
+			].join(" · ")
+		});
 
-		saveBtn.onclick = async () => {
-			toggleButtons(true);
-			try {
-				const codeContent = this.docText.slice(this.start, this.end).trim();
-				const result = await this.plugin.executeDlv(codeContent, this.lang);
-				await this.plugin.saveExecutionResult(result);
-			} finally {
-				toggleButtons(false);
+		const buttons = item.createDiv({ cls: "dlv-history-buttons" });
+		const outputBtn = buttons.createEl("button", { text: "Output" });
+		const rerunBtn = buttons.createEl("button", { text: "Re-run" });
+		const copyBtn = buttons.createEl("button", { text: "Copy" });
+		const compareBtn = buttons.createEl("button", {
+			text: this.selected.includes(entry) ? "Selected" : this.selected.length === 1 ? "Compare with selected" : "Compare"
+		});
+		const outputEl = item.createDiv({ cls: "dlv-output" });
+		outputEl.style.display = "none";
+
+		copyBtn.onclick = () => this.plugin.copyToClipboard(`${result.stdout}\n${result.stderr}`.trim());
+		outputBtn.onclick = () => {
+			if (outputEl.style.display === "none") {
+				this.plugin.updateOutputUI(outputEl, copyBtn, result, undefined, { options: entry.options, sourcePath: entry.path });
+			} else {
+				outputEl.style.display = "none";
 			}
 		};
+		rerunBtn.onclick = async () => {
+			rerunBtn.disabled = true;
+			await this.plugin.rerunHistoryEntry(entry);
+		};
+		// Si selezionano due voci: la prima è il riferimento
+		compareBtn.onclick = () => {
+			this.selected = this.selected.includes(entry)
+				? this.selected.filter(e => e !== entry)
+				: [...this.selected, entry].slice(-2);
+			this.refresh();
+		};
+	}
 
-		copyBtn.onclick = () => this.plugin.copyToClipboard(outputPre.textContent || "");
+	private renderComparison() {
+		this.compareEl.empty();
+		if (this.selected.length !== 2) return;
 
-		const container = document.createElement("div");
-		container.className = "dlv-codeblock";
-		container.append(header, outputPre);
-		return container;
-	}
+		const [a, b] = this.selected;
+		const header = this.compareEl.createDiv({ cls: "dlv-history-title" });
+		header.setText(`${new Date(a.timestamp).toLocaleTimeString()} → ${new Date(b.timestamp).toLocaleTimeString()}`);
+		header.createEl("button", { text: "Close" }).onclick = () => {
+			this.selected = [];
+			this.refresh();
+		};
 
-	eq(other: CodeBlockWidget) {
-		return this.start === other.start && this.end === other.end && this.lang === other.lang;
+		// Colori di un diff comune: "+" verde (solo nella seconda), "-" rosso (solo nella prima)
+		const diff = this.compareEl.createEl("pre", { cls: "dlv-history-diff" });
+		compareResults(a.result, b.result).forEach(line => diff.createDiv({
+			cls: line.startsWith("+") ? "is-added" : line.startsWith("-") ? "is-removed" : "",
+			text: line
+		}));
 	}
 }
 
@@ -190,13 +3020,29 @@ export default class DlvPlugin extends Plugin {
 	settings: DlvPluginSettings;
 	private stylesEl: HTMLStyleElement;
 	pluginPath: string;
-	private activeAbortControllers: Set<AbortController> = new Set();
+	jobs = new JobQueue(DEFAULT_SETTINGS.maxParallelRuns, () => this.onJobsChange());
+	jobsModal: DlvJobsModal | null = null;
+	private resultCache = new ResultCache(DEFAULT_SETTINGS.cacheSize);
+	private solverVersions = new Map<string, { version: string; checked: number }>();
+	blockControls = new WeakMap<HTMLElement, BlockControls>();
+	history: HistoryEntry[] = [];
+	private historySaveTimer: number | null = null;
+	private lastRun: (() => Promise<DlvResult>) | null = null;
+	private statusBarEl: HTMLElement;
 
 	async onload() {
 		await this.initializePluginPath();
 		await this.loadSettings();
+		await this.loadResultCache();
 		this.addStyle();
-		this.registerEditorExtension(this.getEditorDecoration());
+		// Il linter esegue l'analisi statica; le diagnostiche del solver arrivano dalle esecuzioni
+		this.registerEditorExtension([
+			this.getEditorDecoration(),
+			this.getAspHighlighter(),
+			linter(this.aspLintSource.bind(this), { delay: 750 }),
+			autocompletion(),
+			EditorState.languageData.of(() => [{ autocomplete: this.aspCompletionSource.bind(this) }])
+		]);
 		this.registerMarkdownPostProcessor(this.markdownPostProcessor.bind(this));
 		this.addSettingTab(new DlvSettingTab(this.app, this));
 		this.registerFileHeaderButtons();
@@ -213,6 +3059,95 @@ export default class DlvPlugin extends Plugin {
 		}
 
 		this.registerNewScriptButton();
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("mod-clickable");
+		this.statusBarEl.onClickEvent(() => this.openJobsModal());
+		this.registerCommands();
+		this.registerView(DLV_TEST_VIEW, leaf => new DlvTestReportView(leaf, this));
+		this.registerView(DLV_HISTORY_VIEW, leaf => new DlvHistoryView(leaf, this));
+
+		this.addCommand({
+			id: 'open-execution-history',
+			name: 'Open execution history',
+			callback: () => this.openHistoryView()
+		});
+
+		this.addCommand({
+			id: 'run-all-dlv-tests',
+			name: 'Run all DLV tests',
+			callback: () => this.runAllTests()
+		});
+
+		this.addCommand({
+			id: 'clear-dlv-cache',
+			name: 'Clear DLV cache',
+			callback: async () => {
+				await this.clearResultCache();
+				new Notice('DLV cache cleared');
+			}
+		});
+	}
+
+	// Esegue tutti i blocchi di test della vault e mostra il report
+	async runAllTests() {
+		const view = await this.openTestReportView();
+		const tests: { file: TFile; block: CodeBlock; lang: string }[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const content = await this.app.vault.cachedRead(file);
+			findCodeBlocks(content).forEach(block => {
+				const lang = getTestBlockLanguage(block.lang);
+				if (lang && this.isSupportedLanguage(lang)) tests.push({ file, block, lang });
+			});
+		}
+
+		const outcomes: TestOutcome[] = [];
+		for (const [index, { file, block, lang }] of tests.entries()) {
+			view?.setProgress(`Running test ${index + 1} of ${tests.length}…`);
+			outcomes.push(await this.runTestBlock(file, block, lang));
+		}
+		view?.setOutcomes(outcomes);
+
+		const failed = outcomes.filter(o => o.status !== "pass").length;
+		new Notice(tests.length === 0
+			? "No DLV test blocks found"
+			: `DLV tests: ${outcomes.length - failed} passed, ${failed} failed`);
+	}
+
+	private async runTestBlock(file: TFile, block: CodeBlock, lang: string): Promise<TestOutcome> {
+		const name = block.options.id || (block.options.include?.[0] ? `test of ${block.options.include[0]}` : "test");
+		const started = Date.now();
+		const outcome = (status: TestOutcome["status"], failures: string[]): TestOutcome =>
+			({ path: file.path, line: block.line - 1, name, status, failures, duration: Date.now() - started });
+
+		const assertions = parseTestAssertions(block.content);
+		if (assertions.length === 0) return outcome("error", ["No assertions: add lines like \"% assert models 2\""]);
+
+		// Servono tutti i modelli con tutti i fatti per verificare le asserzioni
+		const result = await this.executeDlv(
+			block.content,
+			lang,
+			undefined,
+			// filter vuoto e non undefined: un profilo con filtro nasconderebbe gli atomi controllati
+			{ ...block.options, mode: "models", models: 0, noFacts: false, filter: [] },
+			file.path
+		);
+		if (result.timedOut) return outcome("error", ["Timed out"]);
+		if (result.stderr.trim() && result.models.length === 0 && !/INCOHERENT|UNSATISFIABLE/i.test(result.stdout)) {
+			return outcome("error", result.stderr.trim().split("\n"));
+		}
+
+		const failures = evaluateTestAssertions(result.models, assertions);
+		return outcome(failures.length === 0 ? "pass" : "fail", failures);
+	}
+
+	private async openTestReportView(): Promise<DlvTestReportView | null> {
+		let leaf = this.app.workspace.getLeavesOfType(DLV_TEST_VIEW)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf(true);
+			await leaf.setViewState({ type: DLV_TEST_VIEW, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+		return leaf.view instanceof DlvTestReportView ? leaf.view : null;
 	}
 
 	private registerNewScriptButton() {
@@ -228,6 +3163,166 @@ export default class DlvPlugin extends Plugin {
 		}
 	}
 
+	private registerCommands() {
+		this.addCommand({
+			id: 'run-block-under-cursor',
+			name: 'Run block under cursor',
+			checkCallback: (checking) => this.blockCommand(checking, "run")
+		});
+
+		this.addCommand({
+			id: 'save-block-under-cursor',
+			name: 'Save result of block under cursor',
+			checkCallback: (checking) => this.blockCommand(checking, "save")
+		});
+
+		this.addCommand({
+			id: 'run-current-file',
+			name: 'Run current file',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !this.isSupportedExtension(file.extension)) return false;
+				if (!checking) {
+					this.runFile(file)
+						.then(result => this.reportResult(file.name, result))
+						.catch(error => this.notifyError(file.name, error));
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'run-all-blocks',
+			name: 'Run all blocks in the note',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) return false;
+				const editorView = this.getEditorView(view);
+				if (!editorView) return false;
+				const blocks = this.findEditorBlocks(editorView);
+				if (blocks.length === 0) return false;
+				if (!checking) this.runAllBlocks(editorView, blocks).catch(error => this.notifyError("Run all blocks", error));
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'stop-all-executions',
+			name: 'Stop all running executions',
+			callback: () => {
+				const running = this.jobs.cancelAll();
+				new Notice(running > 0 ? `Stopped ${running} DLV execution${running === 1 ? "" : "s"}` : "No DLV execution is running");
+			}
+		});
+
+		this.addCommand({
+			id: 're-run-last',
+			name: 'Re-run last execution',
+			checkCallback: (checking) => {
+				const lastRun = this.lastRun;
+				if (!lastRun) return false;
+				if (!checking) {
+					lastRun()
+						.then(result => this.reportResult("Last run", result))
+						.catch(error => this.notifyError("Last run", error));
+				}
+				return true;
+			}
+		});
+	}
+
+	private findEditorBlocks(view: EditorView): CodeBlock[] {
+		return findCodeBlocks(view.state.doc.toString())
+			.filter(block => block.lang && this.isSupportedLanguage(block.lang));
+	}
+
+	// Blocco che contiene il cursore, fence compresi
+	private blockCommand(checking: boolean, action: keyof BlockControls) {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view) return false;
+		const editorView = this.getEditorView(view);
+		if (!editorView) return false;
+		const doc = editorView.state.doc;
+		const cursor = editorView.state.selection.main.head;
+		const block = this.findEditorBlocks(editorView).find(block =>
+			cursor >= doc.line(block.line).from && cursor <= doc.lineAt(Math.min(block.end, doc.length)).to
+		);
+		if (!block) return false;
+		if (!checking) {
+			this.runEditorBlock(editorView, block, action, view.file?.path || "")
+				.then(result => this.reportResult(`${block.lang.toUpperCase()} block (line ${block.line})`, result))
+				.catch(error => this.notifyError(`${block.lang.toUpperCase()} block (line ${block.line})`, error));
+		}
+		return true;
+	}
+
+	// Usa i pulsanti del widget se è visibile, altrimenti esegue direttamente il blocco
+	private async runEditorBlock(view: EditorView, block: CodeBlock, action: keyof BlockControls, sourcePath: string) {
+		const container = view.dom.querySelector(`.dlv-codeblock[data-block-end="${block.end}"]`) as HTMLElement | null;
+		const controls = container && this.blockControls.get(container);
+		if (controls) return controls[action]();
+
+		const code = block.content.replace(/\s+$/, "");
+		const result = await this.executeDlv(code, block.lang, undefined, block.options, sourcePath);
+		this.applyDiagnostics(view, block.start, block.end, result.diagnostics);
+		if (action === "save") this.saveResultInEditor(view, block.end, result);
+		return result;
+	}
+
+	private async runAllBlocks(view: EditorView, blocks: CodeBlock[]) {
+		const sourcePath = view.state.field(editorInfoField, false)?.file?.path || "";
+		let failed = 0;
+		for (const block of blocks) {
+			const result = await this.runEditorBlock(view, block, "run", sourcePath);
+			if (result.stderr.trim() && result.models.length === 0) failed++;
+		}
+		new Notice(`Ran ${blocks.length} block${blocks.length === 1 ? "" : "s"}` + (failed > 0 ? `, ${failed} with errors` : ""));
+	}
+
+	// Riepilogo di un'esecuzione in una Notice e nella status bar
+	private reportResult(label: string, result: DlvResult) {
+		let summary: string;
+		if (result.stderr.trim() && !result.stdout.trim()) {
+			summary = `error: ${result.diagnostics[0]?.message ?? result.stderr.trim().split("\n")[0]}`;
+		} else if (result.mode !== "models") {
+			summary = `${result.consequences.length} ${REASONING_MODES[result.mode].toLowerCase()}`;
+		} else {
+			summary = result.models.length === 0
+				? "no answer set"
+				: `${result.models.length} answer set${result.models.length === 1 ? "" : "s"}`;
+		}
+		if (result.timedOut) summary += " (timeout)";
+		else if (result.aborted) summary += " (stopped)";
+
+		new Notice(`${label}: ${summary}`);
+		this.updateStatusBar(`DLV: ${summary}`);
+	}
+
+	// Errori fuori dal solver (es. lettura o scrittura nel vault) lanciati dai comandi
+	private notifyError(label: string, error: unknown) {
+		new Notice(`${label} failed: ${error instanceof Error ? error.message : error}`);
+	}
+
+	private updateStatusBar(text?: string) {
+		if (!this.statusBarEl) return;
+		const { running, queued } = this.jobs;
+		if (running + queued > 0) {
+			this.statusBarEl.setText(`DLV: running ${running}${queued > 0 ? ` · queued ${queued}` : ""}`);
+		} else if (text !== undefined) this.statusBarEl.setText(text);
+		else if (this.statusBarEl.getText().startsWith("DLV: running")) this.statusBarEl.setText("");
+	}
+
+	private onJobsChange() {
+		this.updateStatusBar();
+		this.jobsModal?.render();
+	}
+
+	private openJobsModal() {
+		if (this.jobsModal) return;
+		this.jobsModal = new DlvJobsModal(this.app, this);
+		this.jobsModal.open();
+	}
+
 	private registerFileHeaderButtons() {
 		this.registerEvent(this.app.workspace.on("file-open", (file) => {
 			if (file instanceof TFile && this.isSupportedExtension(file.extension)) {
@@ -260,6 +3355,82 @@ export default class DlvPlugin extends Plugin {
                 border: 1px solid var(--background-modifier-border);
                 position: relative;
             }
+            .dlv-model {
+                white-space: normal;
+                margin-bottom: 0.5rem;
+            }
+            .dlv-mode-label {
+                white-space: normal;
+                font-size: 0.8em;
+                text-transform: uppercase;
+                color: var(--text-muted);
+                margin-bottom: 0.25rem;
+            }
+            .dlv-model-title {
+                font-weight: 600;
+            }
+            .dlv-solver-label,
+            .dlv-model-counter {
+                color: var(--text-muted);
+                font-size: 0.85em;
+            }
+            .dlv-mode-select {
+                font-size: 0.85em;
+            }
+            .dlv-optimum-badge {
+                display: inline-block;
+                white-space: normal;
+                font-size: 0.8em;
+                padding: 0 0.5rem;
+                margin-bottom: 0.5rem;
+                border-radius: 4px;
+                background: var(--background-modifier-border);
+            }
+            .dlv-optimum-badge.is-optimum {
+                background: var(--interactive-accent);
+                color: var(--text-on-accent);
+            }
+            .dlv-convergence {
+                margin-left: 0.5rem;
+            }
+            .dlv-model summary {
+                cursor: pointer;
+                font-weight: 600;
+            }
+            .dlv-predicate-table {
+                border-collapse: collapse;
+                margin: 0.5rem 0;
+                font-family: var(--font-monospace);
+                font-size: 0.9em;
+            }
+            .dlv-predicate-table caption {
+                text-align: left;
+                font-weight: 600;
+                padding-bottom: 0.25rem;
+            }
+            .dlv-predicate-table th,
+            .dlv-predicate-table td {
+                border: 1px solid var(--background-modifier-border);
+                padding: 0.1rem 0.5rem;
+            }
+            .dlv-model-empty {
+                color: var(--text-muted);
+                font-style: italic;
+            }
+            .dlv-asp-comment { color: var(--code-comment); font-style: italic; }
+            .dlv-asp-string { color: var(--code-string); }
+            .dlv-asp-keyword { color: var(--code-keyword); font-weight: 600; }
+            .dlv-asp-operator { color: var(--code-operator); }
+            .dlv-asp-variable { color: var(--code-property); }
+            .dlv-asp-number { color: var(--code-value); }
+            .dlv-asp-predicate { color: var(--code-function); }
+            .dlv-asp-atom { color: var(--code-normal); }
+            .dlv-asp-weight,
+            .dlv-asp-meta { color: var(--code-important); }
+            .dlv-asp-source {
+                white-space: pre-wrap;
+                font-family: var(--font-monospace);
+            }
             .dlv-error {
                 background: var(--background-secondary);
                 padding: 0.5rem;
@@ -275,6 +3446,178 @@ export default class DlvPlugin extends Plugin {
                 display: inline-block;
                 vertical-align: middle;
             }
+            .dlv-diagnostic {
+                cursor: pointer;
+            }
+            .dlv-diagnostic:hover {
+                text-decoration: underline;
+            }
+            .dlv-diagnostic.is-error b {
+                color: #ff5555;
+            }
+            .dlv-diagnostic.is-warning b {
+                color: var(--text-warning);
+            }
+            .dlv-diagnostic.is-info b {
+                color: var(--text-muted);
+            }
+            .dlv-test-summary {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                margin-bottom: 0.5rem;
+                font-weight: 600;
+            }
+            .dlv-test summary {
+                cursor: pointer;
+            }
+            .dlv-test.is-pass .dlv-test-status {
+                color: var(--text-success);
+            }
+            .dlv-test.is-fail .dlv-test-status,
+            .dlv-test.is-error .dlv-test-status {
+                color: var(--text-error);
+            }
+            .dlv-test-duration {
+                color: var(--text-muted);
+                font-size: 0.85em;
+            }
+            .dlv-test-diff .is-added {
+                color: var(--text-error);
+            }
+            .dlv-test-diff .is-removed {
+                color: var(--text-success);
+            }
+            .dlv-view-tabs {
+                display: flex;
+                gap: 0.25rem;
+                margin-bottom: 0.5rem;
+            }
+            .dlv-view-tabs button.is-active {
+                background: var(--interactive-accent);
+                color: var(--text-on-accent);
+            }
+            .dlv-model-switcher {
+                display: flex;
+                align-items: center;
+                gap: 0.5rem;
+                margin-bottom: 0.5rem;
+                font-family: var(--font-interface);
+            }
+            .dlv-graph {
+                display: block;
+                max-height: 400px;
+                background: var(--background-primary);
+                border-radius: 4px;
+            }
+            .dlv-grid {
+                border-collapse: collapse;
+                font-family: var(--font-monospace);
+            }
+            .dlv-grid th {
+                color: var(--text-muted);
+                font-weight: normal;
+                padding: 0 0.4rem;
+            }
+            .dlv-grid td {
+                border: 1px solid var(--background-modifier-border);
+                min-width: 1.8em;
+                height: 1.8em;
+                text-align: center;
+            }
+            .dlv-grid td.is-highlighted {
+                outline: 2px solid var(--text-error);
+                outline-offset: -2px;
+            }
+            .dlv-export-bar {
+                display: flex;
+                align-items: center;
+                gap: 0.25rem;
+                margin-top: 0.5rem;
+                font-family: var(--font-interface);
+                font-size: 0.85em;
+                color: var(--text-muted);
+            }
+            .dlv-conflict-line {
+                background-color: rgba(var(--color-red-rgb), 0.2);
+            }
+            .dlv-ground-warning {
+                margin: 0.25rem 0;
+                color: var(--text-warning);
+                font-family: var(--font-interface);
+                font-size: 0.85em;
+            }
+            .dlv-ground-stats summary,
+            .dlv-ground-group summary {
+                cursor: pointer;
+                font-family: var(--font-interface);
+                font-size: 0.85em;
+            }
+            .dlv-ground-search {
+                width: 100%;
+                margin: 0.5rem 0;
+            }
+            .dlv-ground-count {
+                display: inline-block;
+                min-width: 3em;
+                font-weight: 600;
+            }
+            .dlv-ground-line {
+                margin-right: 0.5em;
+                color: var(--text-muted);
+            }
+            .dlv-ground-rule {
+                padding-left: 1.5em;
+                white-space: pre-wrap;
+            }
+            .dlv-profile-settings {
+                margin-bottom: 0.5rem;
+            }
+            .dlv-profile-settings summary {
+                cursor: pointer;
+                font-weight: 600;
+            }
+            .dlv-export-btn {
+                margin-top: 0.25rem;
+            }
+            .dlv-history-search {
+                width: 100%;
+                margin-bottom: 0.5rem;
+            }
+            .dlv-history-entry {
+                border-bottom: 1px solid var(--background-modifier-border);
+                padding: 0.5rem 0;
+            }
+            .dlv-history-entry.is-selected {
+                background: var(--background-modifier-hover);
+            }
+            .dlv-history-entry.is-error .dlv-history-meta,
+            .dlv-history-entry.is-timeout .dlv-history-meta {
+                color: var(--text-error);
+            }
+            .dlv-history-title {
+                display: flex;
+                gap: 0.5rem;
+                align-items: center;
+                font-weight: 600;
+            }
+            .dlv-history-meta,
+            .dlv-history-empty {
+                color: var(--text-muted);
+                font-size: 0.85em;
+            }
+            .dlv-history-buttons {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 0.25rem;
+                margin-top: 0.25rem;
+            }
+            .dlv-history-diff .is-added {
+                color: var(--text-success);
+            }
+            .dlv-history-diff .is-removed {
+                color: var(--text-error);
+            }
             .error-line {
                 margin: 0.25rem 0;
                 font-family: var(--font-monospace);
@@ -335,29 +3678,200 @@ export default class DlvPlugin extends Plugin {
 		document.head.appendChild(this.stylesEl);
 	}
 
-	createCodeBlockUI(lang: string) {
+	createCodeBlockUI(lang: string, mode: ReasoningMode = this.settings.defaultMode): CodeBlockUI {
 		const header = document.createElement("div");
 		header.className = "dlv-header";
 
 		const langLabel = document.createElement("span");
 		langLabel.textContent = lang.toUpperCase();
 
+		const solverEl = langLabel.createSpan({ cls: "dlv-solver-label" });
+		const counterEl = langLabel.createSpan({ cls: "dlv-model-counter" });
+		counterEl.style.display = "none";
+
 		const buttons = document.createElement("div");
 		buttons.className = "dlv-buttons";
 
 		const runBtn = this.createButton("▶ Run", "run-btn");
+		const checkBtn = this.createButton("✔ Check", "check-btn");
+		const groundBtn = this.createButton("⚙ Ground", "ground-btn");
+		const explainBtn = this.createButton("❓ Why no model?", "explain-btn");
+		explainBtn.style.display = "none";
 		const stopBtn = this.createButton("⏹ Stop", "stop-btn");
 		const saveBtn = this.createButton("💾 Save", "save-btn");
 		const copyBtn = this.createButton("📋 Copy", "copy-btn");
+		const modeSelect = this.createModeSelect(mode);
 
-		buttons.append(runBtn, stopBtn, saveBtn, copyBtn);
+		buttons.append(modeSelect, runBtn, checkBtn, groundBtn, explainBtn, stopBtn, saveBtn, copyBtn);
 		header.append(langLabel, buttons);
 
-		const outputPre = document.createElement("pre");
-		outputPre.className = "dlv-output";
-		outputPre.style.display = "none";
+		const outputPre = document.createElement("pre");
+		outputPre.className = "dlv-output";
+		outputPre.style.display = "none";
+
+		return { header, outputPre, copyBtn, modeSelect, counterEl, solverEl };
+	}
+
+	// Collega i pulsanti di un blocco (editor o reading view) all'esecuzione
+	bindCodeBlockUI(
+		ui: CodeBlockUI,
+		lang: string,
+		options: BlockOptions,
+		sourcePath: string,
+		getCode: () => string,
+		hooks: CodeBlockHooks = {}
+	): BlockControls {
+		const { header, outputPre, copyBtn, modeSelect, counterEl, solverEl } = ui;
+		const runBtn = header.querySelector('.run-btn') as HTMLButtonElement;
+		const checkBtn = header.querySelector('.check-btn') as HTMLButtonElement;
+		const groundBtn = header.querySelector('.ground-btn') as HTMLButtonElement;
+		const explainBtn = header.querySelector('.explain-btn') as HTMLButtonElement;
+		const saveBtn = header.querySelector('.save-btn') as HTMLButtonElement;
+		const stopBtn = header.querySelector('.stop-btn') as HTMLButtonElement;
+		let abortController: AbortController | null = null;
+
+		const toggleButtons = (running: boolean) => {
+			runBtn.disabled = running;
+			saveBtn.disabled = running;
+			groundBtn.disabled = running;
+			explainBtn.disabled = running;
+			stopBtn.style.display = running ? 'block' : 'none';
+			counterEl.style.display = running ? 'inline' : 'none';
+			(runBtn.querySelector('.btn-text') as HTMLElement).textContent = running ? 'Running' : '▶ Run';
+			runBtn.classList.toggle('running', running);
+		};
+
+		const run = async (streamOutput: boolean) => {
+			toggleButtons(true);
+			counterEl.textContent = "";
+			abortController = new AbortController();
+
+			try {
+				const result = await this.executeDlv(
+					getCode(),
+					lang,
+					abortController.signal,
+					{ ...options, mode: getSelectedMode(modeSelect) ?? options.mode },
+					sourcePath,
+					(stdout, modelCount) => {
+						counterEl.textContent = ` · ${modelCount} model${modelCount === 1 ? "" : "s"}`;
+						if (!streamOutput) return;
+						outputPre.style.display = "block";
+						outputPre.setText(stdout);
+					}
+				);
+				solverEl.textContent = ` · ${result.solver}`;
+				// "Why no model?" compare solo dopo un'esecuzione terminata senza answer set
+				const unsat = result.mode === "models" && result.models.length === 0
+					&& !result.timedOut && !result.aborted && !result.stderr.trim();
+				explainBtn.style.display = unsat ? "" : "none";
+				hooks.onResult?.(result);
+				return result;
+			} finally {
+				toggleButtons(false);
+				abortController = null;
+			}
+		};
+
+		const runAndShow = async () => {
+			this.lastRun = runAndShow;
+			const result = await run(true);
+			this.updateOutputUI(outputPre, copyBtn, result, hooks.onDiagnosticClick, { options, sourcePath });
+			return result;
+		};
+		runBtn.onclick = runAndShow;
+
+		// Check: analisi statica senza avviare il solver
+		checkBtn.onclick = async () => {
+			const code = getCode();
+			const checks = await this.checkCode(code, options, sourcePath);
+			const diagnostics = checks.map(check => ({
+				line: code.slice(0, check.from).split("\n").length,
+				message: check.message,
+				severity: check.severity,
+				source: "",
+				path: sourcePath
+			} as SolverDiagnostic));
+
+			outputPre.empty();
+			outputPre.style.display = "block";
+			outputPre.createDiv({
+				cls: "dlv-mode-label",
+				text: diagnostics.length === 0 ? "Static check · no problems found" : `Static check · ${diagnostics.length} problem${diagnostics.length === 1 ? "" : "s"}`
+			});
+			this.renderDiagnostics(outputPre, diagnostics, hooks.onDiagnosticClick);
+			copyBtn.onclick = () => this.copyToClipboard(
+				diagnostics.map(d => `line ${d.line}: ${d.severity}: ${d.message}`).join("\n")
+			);
+			copyBtn.style.display = "block";
+		};
+
+		// Ground: solo il grounding, con il programma istanziato e le statistiche
+		groundBtn.onclick = async () => {
+			toggleButtons(true);
+			abortController = new AbortController();
+			try {
+				const result = await this.groundProgram(getCode(), lang, abortController.signal, options, sourcePath);
+				if (result.solver) solverEl.textContent = ` · ${result.solver}`;
+				this.renderGroundingReport(outputPre, copyBtn, result, hooks.onDiagnosticClick);
+			} finally {
+				toggleButtons(false);
+				abortController = null;
+			}
+		};
+
+		explainBtn.onclick = async () => {
+			toggleButtons(true);
+			abortController = new AbortController();
+			const code = getCode();
+			try {
+				const explanation = await this.explainUnsat(code, lang, abortController.signal, options, sourcePath, runs => {
+					counterEl.textContent = ` · run ${runs}`;
+				});
+				const diagnostics = explanation.statements.map(statement => ({
+					line: statement.line,
+					message: "Part of a minimal set of rules without answer sets",
+					severity: "error",
+					source: "",
+					path: sourcePath
+				} as SolverDiagnostic));
+				hooks.onHighlight?.(diagnostics);
+				this.renderUnsatExplanation(outputPre, copyBtn, explanation, diagnostics, hooks.onDiagnosticClick);
+			} catch {
+				outputPre.empty();
+				outputPre.style.display = "block";
+				outputPre.createDiv({ cls: "dlv-mode-label", text: "Why no model? · stopped" });
+			} finally {
+				toggleButtons(false);
+				abortController = null;
+			}
+		};
+
+		// Stop termina il solver: l'esecuzione termina con l'output parziale
+		stopBtn.onclick = () => abortController?.abort();
+
+		// Senza un blocco di riferimento il risultato va in fondo al file attivo
+		const runAndSave = async () => {
+			const result = await run(false);
+			if (hooks.onSave) await hooks.onSave(result);
+			else await this.saveExecutionResult(result);
+			return result;
+		};
+		saveBtn.onclick = runAndSave;
+
+		return { run: runAndShow, save: runAndSave };
+	}
 
-		return { header, outputPre, copyBtn };
+	// Il valore conta solo se l'utente lo cambia: altrimenti decidono blocco e profilo
+	createModeSelect(mode: ReasoningMode) {
+		const select = document.createElement("select");
+		select.addEventListener("change", () => select.dataset.touched = "true");
+		select.className = "dropdown dlv-mode-select";
+		(Object.keys(REASONING_MODES) as ReasoningMode[]).forEach(value => {
+			select.createEl("option", { value, text: value });
+		});
+		select.value = mode;
+		return select;
 	}
 
 	private createButton(text: string, className: string) {
@@ -374,53 +3888,135 @@ export default class DlvPlugin extends Plugin {
 		return btn;
 	}
 
-	async executeDlv(content: string, lang: string, signal?: AbortSignal): Promise<{ stdout: string; stderr: string }> {
+	// Esegue il programma e registra l'esecuzione nella cronologia
+	async executeDlv(
+		content: string,
+		lang: string,
+		signal?: AbortSignal,
+		options: BlockOptions = {},
+		sourcePath = "",
+		onProgress?: ProgressCallback,
+		recordHistory = true
+	): Promise<DlvResult> {
+		const started = Date.now();
+		const result = await this.runProgram(content, lang, signal, options, sourcePath, onProgress);
+		if (!recordHistory) return result;
+		this.addHistoryEntry({
+			id: `${started}-${Math.random().toString(36).slice(2, 8)}`,
+			path: sourcePath,
+			lang,
+			block: describeProgram(content, options),
+			content,
+			options,
+			timestamp: started,
+			duration: Date.now() - started,
+			result
+		});
+		return result;
+	}
+
+	private async runProgram(
+		content: string,
+		lang: string,
+		signal?: AbortSignal,
+		options: BlockOptions = {},
+		sourcePath = "",
+		onProgress?: ProgressCallback
+	): Promise<DlvResult> {
 		const controller = new AbortController();
-		this.activeAbortControllers.add(controller);
 		if (signal) signal.onabort = () => controller.abort();
+		const note = sourcePath ? path.basename(sourcePath) : "Untitled";
+		const job = this.jobs.add(`${note} · ${describeProgram(content, options) || lang}`, controller);
+		let tmpFile = "";
 
+		let profileError = "";
 		try {
-			const dlvPath = this.getDlvPath();
-			await fs.access(dlvPath);
-
-			const tmpDir = os.tmpdir();
-			await fs.mkdir(tmpDir, { recursive: true });
-
-			const tmpFile = path.join(tmpDir, `dlv-temp-${Date.now()}.${lang}`);
-			await fs.writeFile(tmpFile, content, "utf8");
-
-			const args = [tmpFile];
-			if (this.settings.showAllModels) args.push("-n", "0");
-			if (this.settings.hideFacts) args.push("--no-facts");
-
-			// Aggiungi tipo esplicito per execPromise
-			const execPromise: Promise<{ stdout: string; stderr: string }> = execAsync(
-				`${dlvPath} --t ${args.map(arg => arg).join(" ")}`,
-				{
-					shell: process.platform === "win32" ? "cmd.exe" : "/bin/bash",
-					windowsHide: true,
-					encoding: 'utf-8',
-					signal: controller.signal
-				}
-			);
+			options = this.applyProfile(options, content, sourcePath);
+		} catch (error) {
+			profileError = error instanceof Error ? error.message : String(error);
+		}
+		const mode = options.mode ?? this.settings.defaultMode;
 
-			// Definisci esplicitamente il tipo per result
-			let result: { stdout: string; stderr: string };
+		const solverId = options.solver ?? this.settings.languageSolvers[lang] ?? "dlv2";
+		const backend = this.getSolverBackend(solverId);
 
-			if (this.settings.executionTimeout > 0) {
-				const timeoutPromise = new Promise<never>((_, reject) =>
-					setTimeout(() => reject(new Error("Execution timeout")), this.settings.executionTimeout)
-				);
-				result = await Promise.race([execPromise, timeoutPromise]);
-			} else {
-				result = await execPromise;
+		try {
+			if (profileError) throw new Error(profileError);
+			const executable = this.getSolverExecutable(solverId);
+			// Un nome semplice (es. "clingo") viene cercato nel PATH
+			if (path.isAbsolute(executable)) await fs.access(executable);
+
+			await fs.mkdir(os.tmpdir(), { recursive: true });
+
+			const program = await this.resolveProgram(content, options, sourcePath);
+			if (!backend.modes.includes(mode)) {
+				throw new Error(`${backend.name} does not support ${mode} mode`);
+			}
+			if (mode === "query" && !hasQuery(program.text)) {
+				throw new Error('Query mode needs a query at the end of the program, e.g. "path(a,X)?"');
 			}
 
-			await fs.unlink(tmpFile).catch(() => {});
-			return {
-				stdout: this.cleanOutput(result.stdout),
-				stderr: this.cleanErrors(result.stderr)
+			// Le opzioni del blocco hanno la precedenza sulle impostazioni globali
+			const runOptions: SolverRunOptions = {
+				mode,
+				models: options.models ?? (this.settings.showAllModels ? 0 : undefined),
+				hideFacts: options.noFacts ?? this.settings.hideFacts,
+				filter: options.filter,
+				timeout: options.timeout ?? this.settings.executionTimeout
+			};
+			const programText = backend.prepareProgram
+				? backend.prepareProgram(program.text, runOptions)
+				: program.text;
+
+			const cacheKey = this.settings.cacheResults
+				? await this.getCacheKey(programText, executable, backend.buildArgs("{file}", runOptions), solverId)
+				: "";
+			const cached = cacheKey ? this.resultCache.get(cacheKey) : undefined;
+			if (cached) {
+				return { ...cached, cached: true, view: options.view };
+			}
+
+			// Il solver parte solo quando la coda ha un posto libero
+			await this.jobs.acquire(job);
+			tmpFile = tempFilePath("dlv-temp", lang);
+			await fs.writeFile(tmpFile, programText, "utf8");
+
+			const result = await this.runSolver(
+				executable,
+				backend.buildArgs(tmpFile, runOptions),
+				runOptions.timeout,
+				controller.signal,
+				onProgress && (stdout => onProgress(backend.parseOutput(stdout, mode).text, countModels(stdout)))
+			);
+
+			const parsed = backend.parseOutput(result.stdout, mode);
+			const aborted = controller.signal.aborted;
+			let stderr = this.mapErrorLines(backend.cleanErrors(result.stderr), program);
+			const diagnostics = this.mapDiagnostics(backend, result.stderr, program, sourcePath);
+			if (result.timedOut) stderr = `${stderr}\nExecution timeout`.trim();
+			else if (aborted) stderr = `${stderr}\nExecution aborted`.trim();
+			const dlvResult: DlvResult = {
+				stdout: parsed.text,
+				stderr,
+				mode,
+				models: parsed.models,
+				consequences: parsed.consequences,
+				optimum: parsed.optimum,
+				timedOut: result.timedOut,
+				aborted,
+				solver: backend.name,
+				diagnostics,
+				flags: backend.buildArgs("{file}", runOptions).filter(arg => arg !== "{file}").join(" "),
+				exitCode: result.exitCode,
+				view: options.view
 			};
+
+			// Solo le esecuzioni complete finiscono in cache
+			if (cacheKey && !result.timedOut && !aborted) {
+				this.resultCache.set(cacheKey, dlvResult);
+				await this.saveResultCache();
+			}
+			return dlvResult;
 		} catch (error) {
 			let errorMessage = "Unknown error";
 			if (error instanceof Error) {
@@ -428,45 +4024,457 @@ export default class DlvPlugin extends Plugin {
 			}
 			return {
 				stdout: "",
-				stderr: errorMessage
+				stderr: errorMessage,
+				mode,
+				models: [],
+				consequences: [],
+				optimum: false,
+				timedOut: false,
+				aborted: controller.signal.aborted,
+				solver: backend.name,
+				diagnostics: []
 			};
 		} finally {
-			this.activeAbortControllers.delete(controller);
+			// Il file temporaneo viene rimosso anche dopo errori, timeout o Stop
+			if (tmpFile) await fs.unlink(tmpFile).catch(() => {});
+			this.jobs.finish(job);
+		}
+	}
+
+	// "Why no model?": riesegue il programma disattivando regole e vincoli del blocco (delta debugging)
+	// fino a un insieme minimo che da solo rende il programma inconsistente.
+	// Ogni esecuzione usa il timeout del blocco; signal interrompe la ricerca.
+	async explainUnsat(
+		content: string,
+		lang: string,
+		signal: AbortSignal,
+		options: BlockOptions = {},
+		sourcePath = "",
+		onRun?: (runs: number) => void
+	): Promise<UnsatExplanation> {
+		const runOptions: BlockOptions = { ...options, mode: "models", models: 1 };
+		let runs = 0;
+		let incomplete = false;
+
+		const run = async (program: string) => {
+			if (signal.aborted) throw new Error("Execution aborted");
+			runs++;
+			onRun?.(runs);
+			const result = await this.executeDlv(program, lang, signal, runOptions, sourcePath, undefined, false);
+			if (result.aborted) throw new Error("Execution aborted");
+			return result;
+		};
+		// Inconsistente solo se il solver ha finito senza errori e senza answer set
+		const isUnsat = (result: DlvResult) => {
+			if (result.timedOut) incomplete = true;
+			return result.models.length === 0 && !result.timedOut
+				&& !result.diagnostics.some(d => d.severity === "error") && !/error/i.test(result.stderr);
+		};
+
+		const full = await run(content);
+		if (full.models.length > 0) return { status: "satisfiable", statements: [], runs, incomplete };
+		if (!isUnsat(full)) {
+			return {
+				status: "error",
+				statements: [],
+				runs,
+				incomplete,
+				message: full.timedOut ? "The program hits the timeout before the solver can tell" : full.stderr || "The solver reported an error"
+			};
+		}
+
+		const candidates = findConflictCandidates(content);
+		if (isUnsat(await run(withoutStatements(content, candidates)))) {
+			return { status: "outside", statements: [], runs, incomplete };
 		}
+
+		const minimal = await deltaDebug(candidates, async subset =>
+			isUnsat(await run(withoutStatements(content, candidates.filter(c => !subset.includes(c))))));
+		return {
+			status: "conflict",
+			statements: minimal.map(statement => ({
+				line: content.slice(0, statement.from).split("\n").length,
+				text: `${content.slice(statement.from, statement.to).replace(/\s+/g, " ")}.`
+			})),
+			runs,
+			incomplete
+		};
 	}
 
-	private cleanOutput(output: string) {
-		return output
-			.replace(/^DLV \d+\.\d+\.\d+\s*\n/, "") // Rimuove la riga della versione
-			.replace(/Generic warning: .*\n?/g, "")  // Rimuove i warning generici
-			.trim();
+	// Righe degli errori riportate al blocco o al file da cui provengono
+	private mapDiagnostics(backend: SolverBackend, stderr: string, program: ResolvedProgram, sourcePath: string): SolverDiagnostic[] {
+		return backend.parseDiagnostics(stderr).map(diagnostic => {
+			const mapped = mapProgramLine(program, diagnostic.line);
+			return {
+				...diagnostic,
+				line: mapped.line,
+				source: mapped.label,
+				path: mapped.path || sourcePath,
+				fileLine: mapped.fileLine
+			};
+		});
 	}
 
-	private cleanErrors(errorOutput: string): string {
-		// Split in linee e filtra
-		const lines = errorOutput.split('\n')
-			.map(line => {
-				// 1. Rimuovi interi percorsi file
-				line = line.replace(/([A-Za-z]:\\[^\s]+|\/[^\s]+)/g, '')
-					.replace(/(dlv-temp-\d+\.asp)/gi, 'Input');
-
-				// 2. Estrai solo la parte dopo "line X:"
-				const errorMatch = line.match(/(line \d+):\s*(.*)/i);
-				if (errorMatch) {
-					return `${errorMatch[1]}: ${errorMatch[2].replace(/^.*?:\s*/, '')}`;
-				}
+	// Solo grounding: restituisce il programma istanziato invece degli answer set.
+	// Passa dalla stessa coda delle esecuzioni e rispetta timeout e Stop.
+	async groundProgram(
+		content: string,
+		lang: string,
+		signal?: AbortSignal,
+		options: BlockOptions = {},
+		sourcePath = ""
+	): Promise<GroundResult> {
+		const controller = new AbortController();
+		if (signal) signal.onabort = () => controller.abort();
+		const note = sourcePath ? path.basename(sourcePath) : "Untitled";
+		const job = this.jobs.add(`${note} · ground ${describeProgram(content, options) || lang}`, controller);
+		let tmpFile = "";
+		let solver = "";
 
-				// 3. Rimuovi righe non rilevanti
-				return line.includes('Command failed:') ||
-				line.includes('Aborting due to') ? '' : line;
-			})
-			.filter(line => line.trim().length > 0);
+		try {
+			options = this.applyProfile(options, content, sourcePath);
+			const solverId = options.solver ?? this.settings.languageSolvers[lang] ?? "dlv2";
+			const backend = this.getSolverBackend(solverId);
+			solver = backend.name;
+			if (!backend.groundArgs) throw new Error(`${backend.name} cannot show the ground program`);
+			const executable = this.getSolverExecutable(solverId);
+			if (path.isAbsolute(executable)) await fs.access(executable);
+
+			const program = await this.resolveProgram(content, options, sourcePath);
+			await this.jobs.acquire(job);
+			tmpFile = tempFilePath("dlv-temp", lang);
+			await fs.writeFile(tmpFile, program.text, "utf8");
+
+			const started = Date.now();
+			const result = await this.runSolver(
+				executable,
+				backend.groundArgs(tmpFile),
+				options.timeout ?? this.settings.executionTimeout,
+				controller.signal
+			);
+			const aborted = controller.signal.aborted;
+			let stderr = this.mapErrorLines(backend.cleanErrors(result.stderr), program);
+			if (result.timedOut) stderr = `${stderr}\nExecution timeout`.trim();
+			else if (aborted) stderr = `${stderr}\nExecution aborted`.trim();
+			return {
+				text: result.stdout.trim(),
+				stderr,
+				solver,
+				time: Date.now() - started,
+				timedOut: result.timedOut,
+				aborted,
+				program,
+				diagnostics: this.mapDiagnostics(backend, result.stderr, program, sourcePath)
+			};
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			return {
+				text: "",
+				stderr: controller.signal.aborted ? "Execution aborted" : message,
+				solver,
+				time: 0,
+				timedOut: false,
+				aborted: controller.signal.aborted,
+				diagnostics: []
+			};
+		} finally {
+			if (tmpFile) await fs.unlink(tmpFile).catch(() => {});
+			this.jobs.finish(job);
+		}
+	}
+
+	// Profilo dal blocco, dal commento "% profile: nome" in testa al programma o dal campo dlv-profile
+	// del frontmatter; le opzioni scritte nel blocco hanno la precedenza sul profilo
+	applyProfile(options: BlockOptions, content: string, sourcePath: string): BlockOptions {
+		const name = options.profile ?? findProfileComment(content) ?? this.getFrontmatterProfile(sourcePath);
+		if (!name) return options;
+
+		const profile = this.settings.profiles.find(p => p.name === name);
+		if (!profile) throw new Error(`Unknown profile "${name}" (see the Profiles settings)`);
+		const { name: _, ...profileOptions } = profile;
+		const explicit = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+		return { ...profileOptions, ...explicit };
+	}
+
+	private getFrontmatterProfile(sourcePath: string): string | undefined {
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) return undefined;
+		const value = this.app.metadataCache.getFileCache(file)?.frontmatter?.["dlv-profile"];
+		return typeof value === "string" && value ? value : undefined;
+	}
+
+	getSolverBackend(id: SolverId): SolverBackend {
+		return id === "custom"
+			? createCustomBackend(this.settings.customCommand, this.settings.customOutputFormat)
+			: SOLVER_BACKENDS[id];
+	}
+
+	private getSolverExecutable(id: SolverId): string {
+		switch (id) {
+			case "dlv":
+				return this.settings.dlvClassicPath;
+			case "clingo":
+				return this.settings.clingoPath;
+			case "custom": {
+				const executable = tokenizeFenceInfo(this.settings.customCommand)[0];
+				if (!executable) throw new Error("No custom solver command configured");
+				return executable.replace(/^"(.*)"$/, "$1");
+			}
+			default:
+				return this.getDlvPath();
+		}
+	}
+
+	// La chiave dipende dal programma composto (include risolti), dal solver e dai flag effettivi
+	private async getCacheKey(program: string, executable: string, args: string[], solver: SolverId) {
+		return createHash("sha256")
+			.update(JSON.stringify({
+				program,
+				solver,
+				executable,
+				solverVersion: await this.getSolverVersion(executable),
+				args
+			}))
+			.digest("hex");
+	}
+
+	// Versione del solver da "--version", così un aggiornamento (anche di un solver nel PATH) invalida la cache.
+	// Il risultato è memorizzato: per i binari con percorso finché non cambiano, per quelli nel PATH per un minuto.
+	// Se il solver non risponde si usano dimensione e data di modifica del binario.
+	private async getSolverVersion(executable: string) {
+		const stat = path.isAbsolute(executable) ? await fs.stat(executable).catch(() => null) : null;
+		const fileVersion = stat ? `${stat.size}-${stat.mtimeMs}` : "";
+		const key = `${executable}\n${fileVersion}`;
+		const known = this.solverVersions.get(key);
+		if (known && (stat || Date.now() - known.checked < SOLVER_VERSION_TTL)) return known.version;
+
+		const version = await this.probeSolverVersion(executable) || fileVersion;
+		this.solverVersions.set(key, { version, checked: Date.now() });
+		return version;
+	}
+
+	private getHistoryFilePath() {
+		return path.join(this.pluginPath, "history.json");
+	}
+
+	private getCacheFilePath() {
+		return path.join(this.pluginPath, "cache.json");
+	}
+
+	private async loadResultCache() {
+		this.resultCache.setLimit(this.settings.cacheSize);
+		if (!this.settings.persistCache) return;
+		try {
+			const data = await fs.readFile(this.getCacheFilePath(), "utf8");
+			this.resultCache.load(JSON.parse(data));
+		} catch {
+			// Nessuna cache salvata
+		}
+	}
+
+	async saveResultCache() {
+		if (!this.settings.persistCache) return;
+		try {
+			await fs.writeFile(this.getCacheFilePath(), JSON.stringify(this.resultCache), "utf8");
+		} catch (error) {
+			console.error("Errore salvataggio cache:", error);
+		}
+	}
+
+	async clearResultCache() {
+		this.resultCache.clear();
+		await fs.unlink(this.getCacheFilePath()).catch(() => {});
+	}
+
+	updateResultCacheLimit() {
+		this.resultCache.setLimit(this.settings.cacheSize);
+	}
+
+	// Avvia il solver senza shell; l'output viene raccolto man mano,
+	// così timeout e Stop conservano i modelli già trovati
+	private runSolver(
+		executable: string,
+		args: string[],
+		timeout: number,
+		signal: AbortSignal,
+		onOutput?: (stdout: string) => void
+	): Promise<{ stdout: string; stderr: string; timedOut: boolean; exitCode: number | null }> {
+		return new Promise((resolve, reject) => {
+			const child = spawn(executable, args, {
+				windowsHide: true,
+				detached: process.platform !== "win32"
+			});
+			let stdout = "";
+			let stderr = "";
+			let timedOut = false;
+
+			child.stdout?.setEncoding("utf8");
+			child.stderr?.setEncoding("utf8");
+			child.stdout?.on("data", (data: string) => {
+				stdout += data;
+				onOutput?.(stdout);
+			});
+			child.stderr?.on("data", (data: string) => stderr += data);
+
+			const onAbort = () => killProcessTree(child);
+			signal.addEventListener("abort", onAbort);
+			const timer = timeout > 0
+				? setTimeout(() => {
+					timedOut = true;
+					killProcessTree(child);
+				}, timeout)
+				: null;
+
+			const cleanup = () => {
+				if (timer) clearTimeout(timer);
+				signal.removeEventListener("abort", onAbort);
+			};
+			child.on("close", (exitCode: number | null) => {
+				cleanup();
+				resolve({ stdout, stderr, timedOut, exitCode });
+			});
+			child.on("error", error => {
+				cleanup();
+				reject(error);
+			});
+		});
+	}
+
+	// Compone il programma anteponendo i blocchi e i file inclusi (include= e %#include)
+	async resolveProgram(
+		content: string,
+		options: BlockOptions,
+		sourcePath: string,
+		label = "",
+		stack: string[] = [],
+		included: Set<string> = new Set()
+	): Promise<ResolvedProgram> {
+		const key = label || this.getSourceLabel(sourcePath, options.id);
+		const targets = [...(options.include || []), ...findIncludeDirectives(content)];
+		const segments: SourceSegment[] = [];
+		const parts: string[] = [];
+		let lineCount = 0;
+
+		for (const target of targets) {
+			const resolved = await this.resolveIncludeTarget(target, sourcePath);
+			if (stack.includes(resolved.label) || resolved.label === key) {
+				const cycle = [...stack, key, resolved.label].join(" → ");
+				throw new Error(`Include cycle detected: ${cycle}`);
+			}
+			if (included.has(resolved.label)) continue;
+			included.add(resolved.label);
+
+			const child = await this.resolveProgram(
+				resolved.content,
+				resolved.options,
+				resolved.path,
+				resolved.label,
+				[...stack, key],
+				included
+			);
+			child.segments.forEach(segment => segments.push({
+				...segment,
+				startLine: segment.startLine + lineCount,
+				fileLine: segment.label === resolved.label ? resolved.line : segment.fileLine
+			}));
+			parts.push(child.text);
+			lineCount += child.text.split("\n").length;
+		}
+
+		// I fatti caricati dalla vault precedono il programma del blocco
+		for (const source of [...(options.factSources || []), ...findFactDirectives(content)]) {
+			const facts = await this.loadFactSource(source, sourcePath);
+			const factLines = facts.text.split("\n").length;
+			segments.push({ label: facts.label, startLine: lineCount + 1, lineCount: factLines, path: facts.path, fileLine: 0 });
+			parts.push(facts.text);
+			lineCount += factLines;
+		}
+
+		const ownLines = content.split("\n").length;
+		segments.push({ label, startLine: lineCount + 1, lineCount: ownLines, path: sourcePath });
+		parts.push(content);
+		return { text: parts.join("\n"), segments };
+	}
+
+	// Converte una sorgente di dati della vault (CSV, tabella markdown, frontmatter) in fatti ASP
+	private async loadFactSource(source: FactSource, sourcePath: string) {
+		if (source.kind === "frontmatter") {
+			if (!source.fields) {
+				throw new Error(`facts-from-frontmatter needs field names, e.g. "${source.target} → ${source.predicate}(Name, Status)"`);
+			}
+			const target = source.target.toLowerCase();
+			const files = this.app.vault.getMarkdownFiles()
+				.filter(file => {
+					if (!target.startsWith("#")) return file.path.toLowerCase().startsWith(`${target.replace(/\/+$/, "")}/`);
+					const cache = this.app.metadataCache.getFileCache(file);
+					return !!cache && (getAllTags(cache) || [])
+						.some(tag => tag.toLowerCase() === target || tag.toLowerCase().startsWith(`${target}/`));
+				})
+				.sort((a, b) => a.path.localeCompare(b.path));
+			const facts = files.flatMap(file =>
+				frontmatterToFacts(this.app.metadataCache.getFileCache(file)?.frontmatter, source, file));
+			return { label: `${source.target} (frontmatter)`, path: sourcePath, text: facts.join("\n") };
+		}
+
+		const link = source.target.replace(/^\[\[|\]\]$/g, "").split("|")[0].split("#")[0].trim();
+		const file = this.app.metadataCache.getFirstLinkpathDest(link, sourcePath) ?? this.app.vault.getAbstractFileByPath(link);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Facts file not found: "${source.target}"`);
+		}
+		const text = await this.app.vault.cachedRead(file);
+		const rows = file.extension === "csv" ? parseCsv(text) : parseMarkdownTable(text);
+		return { label: `${file.name} (facts)`, path: file.path, text: rowsToFacts(rows, source, file.path).join("\n") };
+	}
+
+	private getSourceLabel(sourcePath: string, id?: string) {
+		const name = path.basename(sourcePath);
+		return id ? `${path.basename(sourcePath, path.extname(sourcePath))}#${id}` : name;
+	}
+
+	private async resolveIncludeTarget(target: string, sourcePath: string) {
+		const link = target.replace(/^\[\[|\]\]$/g, "").split("|")[0].trim();
+		const hash = link.indexOf("#");
+		const linkPath = hash < 0 ? link : link.slice(0, hash);
+		const blockId = hash < 0 ? "" : link.slice(hash + 1);
+
+		// Un nome semplice ("encoding") indica un blocco della stessa nota
+		const isLink = target.startsWith("[[") || hash >= 0;
+		const file = isLink && linkPath
+			? this.app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath)
+			: this.app.vault.getAbstractFileByPath(sourcePath);
+		const id = isLink ? blockId : linkPath;
+
+		if (!(file instanceof TFile)) {
+			throw new Error(`Include target not found: "${target}"`);
+		}
+
+		const text = await this.app.vault.cachedRead(file);
+		if (this.isSupportedExtension(file.extension)) {
+			return { label: file.name, path: file.path, line: 0, content: text, options: {} as BlockOptions };
+		}
+
+		if (!id) {
+			throw new Error(`Include target "${target}" is a note: specify a block, e.g. [[${file.basename}#block-id]]`);
+		}
+		const block = findCodeBlocks(text).find(b => b.options.id === id && this.isSupportedLanguage(b.lang));
+		if (!block) {
+			throw new Error(`Include target not found: block "${id}" in ${file.basename}`);
+		}
+		return {
+			label: `${file.basename}#${id}`,
+			path: file.path,
+			line: block.line,
+			content: block.content,
+			options: block.options
+		};
+	}
 
-		// 4. Unisci e formatta
-		return lines.join('\n')
-			.replace(/(line \d+):/gi, 'Errore:\n$1')
-			.replace(/[.:]+$/, '') // Rimuovi punti finali
-			.trim();
+	// Sostituisce "line N" del programma composto con la riga del blocco o file di origine
+	private mapErrorLines(errors: string, program: ResolvedProgram) {
+		return errors.replace(/line (\d+)/gi, (_, line: string) => {
+			const mapped = mapProgramLine(program, parseInt(line));
+			return mapped.label ? `line ${mapped.line} (${mapped.label})` : `line ${mapped.line}`;
+		});
 	}
 
 	private formatErrorMessages(errorString: string) {
@@ -486,72 +4494,562 @@ export default class DlvPlugin extends Plugin {
 			.join('');
 	}
 
-	updateOutputUI(outputEl: HTMLElement, copyBtn: HTMLButtonElement, result: { stdout: string; stderr: string }) {
+	// Sostituisce le diagnostiche del blocco [from, to] lasciando quelle degli altri blocchi
+	applyDiagnostics(view: EditorView, from: number, to: number, diagnostics: SolverDiagnostic[]) {
+		const doc = view.state.doc;
+		const kept: Diagnostic[] = [];
+		forEachDiagnostic(view.state, (d, dFrom, dTo) => {
+			if (dTo < from || dFrom > to || d.source !== "DLV") kept.push({ ...d, from: dFrom, to: dTo });
+		});
+
+		const startLine = doc.lineAt(Math.min(from, doc.length)).number;
+		const added = diagnostics
+			.filter(d => d.source === "")
+			.map(d => {
+				const line = doc.line(Math.min(doc.lines, startLine + d.line - 1));
+				return {
+					from: line.from,
+					to: line.to,
+					severity: d.severity,
+					message: d.message,
+					source: "DLV"
+				} as Diagnostic;
+			});
+		view.dispatch(setDiagnostics(view.state, [...kept, ...added]));
+	}
+
+	revealDiagnosticInEditor(view: EditorView, blockStart: number, diagnostic: SolverDiagnostic) {
+		if (diagnostic.source !== "") {
+			this.revealDiagnostic(diagnostic);
+			return;
+		}
+		const doc = view.state.doc;
+		const startLine = doc.lineAt(Math.min(blockStart, doc.length)).number;
+		const line = doc.line(Math.min(doc.lines, startLine + diagnostic.line - 1));
+		view.dispatch({ selection: { anchor: line.from }, scrollIntoView: true });
+		view.focus();
+	}
+
+	// Apre il file della sorgente alla riga della diagnostica; baseLine è la riga 0-based
+	// in cui inizia la sorgente eseguita (es. l'inizio del blocco in reading view)
+	async revealDiagnostic(diagnostic: SolverDiagnostic, baseLine = 0) {
+		const file = this.app.vault.getAbstractFileByPath(diagnostic.path);
+		if (!(file instanceof TFile)) return;
+
+		const line = (diagnostic.fileLine ?? baseLine) + diagnostic.line - 1;
+		await this.app.workspace.getLeaf(false).openFile(file, {
+			state: { mode: "source" },
+			eState: { line }
+		});
+	}
+
+	updateOutputUI(
+		outputEl: HTMLElement,
+		copyBtn: HTMLButtonElement,
+		result: DlvResult,
+		onDiagnosticClick?: (diagnostic: SolverDiagnostic) => void,
+		context: OutputContext = {}
+	) {
 		const hasOutput = result.stdout.trim().length > 0;
 		const hasErrors = result.stderr.trim().length > 0;
+		const showErrors = (this.settings.showErrors || !hasOutput) && hasErrors;
 
 		// Mostra output normale
-		outputEl.innerHTML = result.stdout.replace(/\n/g, "<br>");
+		outputEl.empty();
+		if (hasOutput || !hasErrors) {
+			const status = result.timedOut ? " · timeout" : result.aborted ? " · stopped" : result.cached ? " · cached" : "";
+			outputEl.createDiv({ cls: "dlv-mode-label", text: REASONING_MODES[result.mode] + status });
+		}
+		if (result.mode !== "models" && result.consequences.length > 0) {
+			const consequencesEl = outputEl.createDiv({ cls: "dlv-model" });
+			consequencesEl.createDiv({ cls: "dlv-model-title", text: `${result.consequences.length} atoms` });
+			this.renderAtomTables(consequencesEl, result.consequences);
+		} else if (result.models.length > 0) {
+			this.renderModelViews(outputEl, result, context);
+		} else {
+			outputEl.setText(result.stdout);
+		}
+		if (result.models.length > 0 || result.consequences.length > 0) {
+			const exportBar = outputEl.createDiv({ cls: "dlv-export-bar" });
+			exportBar.createSpan({ text: "Export:" });
+			(["json", "csv", "markdown"] as ExportFormat[]).forEach(format => {
+				exportBar.createEl("button", { text: format === "markdown" ? "Markdown" : format.toUpperCase() })
+					.onclick = () => this.exportResult(result, format, context.sourcePath || "");
+			});
+		}
 		outputEl.style.display = "block";
 
 		// Mostra errori se:
 		// 1. L'opzione è attiva OPPURE
 		// 2. Non c'è output ma ci sono errori
-		if ((this.settings.showErrors || !hasOutput) && hasErrors) {
-			const errorContent = this.cleanErrors(result.stderr)
+		if (showErrors) {
+			const errorEl = outputEl.createDiv({ cls: "dlv-error" });
+			const errorPre = errorEl.createEl("pre");
+			this.renderDiagnostics(errorPre, result.diagnostics, onDiagnosticClick);
+			result.stderr
 				.split('\n')
-				.map(line => {
+				.filter(line => result.diagnostics.length === 0 || !/^(Errore:?|line \d+.*)$/i.test(line.trim()))
+				.forEach(line => {
 					const parts = line.split(':');
-					return `<div class="error-line">
-                    <b>${parts[0]}:</b>
-                    ${parts.slice(1).join(':')}
-                </div>`;
-				})
-				.join('');
+					const lineEl = errorPre.createDiv({ cls: "error-line" });
+					lineEl.createEl("b", { text: `${parts[0]}:` });
+					lineEl.appendText(` ${parts.slice(1).join(':')}`);
+				});
+		}
+
+		// Copia sempre il testo semplice, non la vista a tabelle
+		const plainText = showErrors ? `${result.stdout}\n${result.stderr}`.trim() : result.stdout;
+		copyBtn.onclick = () => this.copyToClipboard(plainText);
+		copyBtn.style.display = "block";
+	}
+
+	// Le righe con un numero di riga diventano diagnostiche cliccabili
+	private renderDiagnostics(
+		container: HTMLElement,
+		diagnostics: SolverDiagnostic[],
+		onDiagnosticClick?: (diagnostic: SolverDiagnostic) => void
+	) {
+		diagnostics.forEach(diagnostic => {
+			const lineEl = container.createDiv({ cls: `error-line dlv-diagnostic is-${diagnostic.severity}` });
+			const location = diagnostic.source
+				? `line ${diagnostic.line} (${diagnostic.source})`
+				: `line ${diagnostic.line}`;
+			lineEl.createEl("b", { text: `${location}:` });
+			lineEl.appendText(` ${diagnostic.message}`);
+			lineEl.onclick = () => onDiagnosticClick
+				? onDiagnosticClick(diagnostic)
+				: this.revealDiagnostic(diagnostic);
+		});
+	}
+
+	private renderUnsatExplanation(
+		container: HTMLElement,
+		copyBtn: HTMLButtonElement,
+		explanation: UnsatExplanation,
+		diagnostics: SolverDiagnostic[],
+		onDiagnosticClick?: (diagnostic: SolverDiagnostic) => void
+	) {
+		container.empty();
+		container.style.display = "block";
+		const runs = `${explanation.runs} run${explanation.runs === 1 ? "" : "s"}`;
+		const messages: Record<UnsatExplanation["status"], string> = {
+			satisfiable: "the program has answer sets",
+			conflict: `${explanation.statements.length} rule${explanation.statements.length === 1 ? "" : "s"} without answer sets together`,
+			outside: "the program has no answer set even without the rules and constraints of this block: the conflict is in its facts or in the included programs",
+			error: explanation.message || "the solver reported an error"
+		};
+		container.createDiv({ cls: "dlv-mode-label", text: `Why no model? · ${messages[explanation.status]} (${runs})` });
+		if (explanation.incomplete) {
+			container.createDiv({
+				cls: "dlv-ground-warning",
+				text: "Some runs hit the timeout and counted as consistent: the set may not be minimal."
+			});
+		}
+		this.renderDiagnostics(container, diagnostics.map((diagnostic, i) => ({
+			...diagnostic,
+			message: explanation.statements[i].text
+		})), onDiagnosticClick);
+		copyBtn.onclick = () => this.copyToClipboard(explanation.statements.map(statement => statement.text).join("\n"));
+		copyBtn.style.display = "block";
+	}
+
+	// Statistiche del grounding e programma ground raggruppato per regola sorgente,
+	// con ricerca e gruppi richiudibili; oltre GROUND_DISPLAY_LIMIT regole il testo è troncato
+	renderGroundingReport(
+		container: HTMLElement,
+		copyBtn: HTMLButtonElement,
+		result: GroundResult,
+		onDiagnosticClick?: (diagnostic: SolverDiagnostic) => void
+	) {
+		container.empty();
+		container.style.display = "block";
+		const report = analyzeGrounding(result.text, result.program?.text || "");
+		const status = result.timedOut ? " · timeout" : result.aborted ? " · stopped" : "";
+		container.createDiv({
+			cls: "dlv-mode-label",
+			text: `Grounding · ${report.rules} ground rule${report.rules === 1 ? "" : "s"} · ${report.atoms} atom${report.atoms === 1 ? "" : "s"} · ${result.time} ms${status}`
+		});
+
+		if (result.stderr.trim()) {
+			const errorPre = container.createDiv({ cls: "dlv-error" }).createEl("pre");
+			this.renderDiagnostics(errorPre, result.diagnostics, onDiagnosticClick);
+			if (result.diagnostics.length === 0) errorPre.setText(result.stderr);
+		}
+		copyBtn.onclick = () => this.copyToClipboard(result.text);
+		copyBtn.style.display = "block";
+		if (report.rules === 0) return;
+
+		if (report.rules > GROUND_DISPLAY_LIMIT) {
+			container.createDiv({
+				cls: "dlv-ground-warning",
+				text: `The ground program has ${report.rules} rules: only the first ${GROUND_DISPLAY_LIMIT} are shown. Copy gives the whole program.`
+			});
+		}
+
+		const predicates = container.createEl("details", { cls: "dlv-ground-stats" });
+		predicates.createEl("summary", { text: `Atoms per predicate (${report.predicates.length})` });
+		const table = predicates.createEl("table", { cls: "dlv-predicate-table" });
+		const headRow = table.createEl("thead").createEl("tr");
+		headRow.createEl("th", { text: "Predicate" });
+		headRow.createEl("th", { text: "Atoms" });
+		const tbody = table.createEl("tbody");
+		report.predicates.forEach(({ key, count }) => {
+			const row = tbody.createEl("tr");
+			row.createEl("td", { text: key });
+			row.createEl("td", { text: count.toString() });
+		});
+
+		const search = container.createEl("input", {
+			cls: "dlv-ground-search",
+			attr: { type: "search", placeholder: "Search ground rules" }
+		});
+		const groupsEl = container.createDiv();
+		let remaining = GROUND_DISPLAY_LIMIT;
+		const rendered = report.groups.map(group => {
+			const details = groupsEl.createEl("details", { cls: "dlv-ground-group" });
+			const summary = details.createEl("summary");
+			summary.createSpan({ cls: "dlv-ground-count", text: group.rules.length.toString() });
+			if (group.from >= 0 && result.program) {
+				const mapped = mapProgramLine(result.program, result.program.text.slice(0, group.from).split("\n").length);
+				summary.createSpan({
+					cls: "dlv-ground-line",
+					text: mapped.label ? `line ${mapped.line} (${mapped.label})` : `line ${mapped.line}`
+				});
+			}
+			summary.createSpan({ text: group.source });
+
+			const lines = group.rules.slice(0, Math.max(0, remaining)).map(rule =>
+				details.createDiv({ cls: "dlv-ground-rule", text: rule }));
+			remaining -= lines.length;
+			return { details, lines };
+		});
+
+		search.addEventListener("input", () => {
+			const query = search.value.trim().toLowerCase();
+			rendered.forEach(({ details, lines }) => {
+				let matches = 0;
+				lines.forEach(line => {
+					const visible = !query || (line.textContent || "").toLowerCase().includes(query);
+					line.style.display = visible ? "" : "none";
+					if (visible) matches++;
+				});
+				details.style.display = query && matches === 0 ? "none" : "";
+				details.open = query.length > 0 && matches > 0;
+			});
+		});
+	}
+
+	// Viste alternative degli answer set (es. grafo) selezionabili accanto al testo
+	private renderModelViews(container: HTMLElement, result: DlvResult, context: OutputContext) {
+		const views: { name: string; render: (el: HTMLElement) => void }[] = [];
+		const graph = context.options?.graph;
+		if (graph?.node || graph?.edge) {
+			views.push({ name: "Graph", render: el => this.renderGraphView(el, result, graph, context.sourcePath || "") });
+		}
+		const grid = context.options?.grid;
+		if (grid?.predicate) {
+			views.push({ name: "Grid", render: el => this.renderGridView(el, result, grid) });
+		}
+		views.push({ name: "Text", render: el => this.renderAnswerSets(el, result) });
+
+		if (views.length === 1) {
+			views[0].render(container);
+			return;
+		}
+
+		const tabs = container.createDiv({ cls: "dlv-view-tabs" });
+		const body = container.createDiv();
+		const show = (index: number) => {
+			tabs.querySelectorAll("button").forEach((tab, i) => tab.toggleClass("is-active", i === index));
+			body.empty();
+			views[index].render(body);
+		};
+		views.forEach((view, index) => {
+			tabs.createEl("button", { text: view.name }).onclick = () => show(index);
+		});
+		const preferred = result.view ?? context.options?.view;
+		show(Math.max(0, views.findIndex(view => view.name.toLowerCase() === preferred)));
+	}
+
+	// Selettore del modello: "‹ Answer set 2 of 5 ›", render viene chiamato a ogni cambio
+	private renderModelSwitcher(container: HTMLElement, count: number, render: (el: HTMLElement, index: number) => void) {
+		const switcher = container.createDiv({ cls: "dlv-model-switcher" });
+		const body = container.createDiv();
+		let current = 0;
+
+		const prevBtn = switcher.createEl("button", { text: "‹" });
+		const label = switcher.createSpan();
+		const nextBtn = switcher.createEl("button", { text: "›" });
+		const show = (index: number) => {
+			current = Math.max(0, Math.min(count - 1, index));
+			label.setText(`Answer set ${current + 1} of ${count}`);
+			prevBtn.disabled = current === 0;
+			nextBtn.disabled = current === count - 1;
+			body.empty();
+			render(body, current);
+		};
+		prevBtn.onclick = () => show(current - 1);
+		nextBtn.onclick = () => show(current + 1);
+		if (count < 2) switcher.style.display = "none";
+		show(0);
+	}
+
+	private renderGraphView(container: HTMLElement, result: DlvResult, options: GraphOptions, sourcePath: string) {
+		this.renderModelSwitcher(container, result.models.length, (el, index) => {
+			const graph = buildGraph(result.models[index].atoms, options);
+			if (graph.nodes.length === 0) {
+				el.createDiv({ cls: "dlv-model-empty", text: "No nodes in this answer set" });
+				return;
+			}
+			const svg = renderGraphSvg(el, graph, options);
+			const exportBtn = el.createEl("button", { cls: "dlv-export-btn", text: "Export SVG" });
+			exportBtn.onclick = () => this.exportSvg(svg, sourcePath, index);
+		});
+	}
+
+	private renderGridView(container: HTMLElement, result: DlvResult, options: GridOptions) {
+		this.renderModelSwitcher(container, result.models.length, (el, index) => {
+			const grid = buildGrid(result.models[index].atoms, options);
+			if (!grid || grid.cells.size === 0) {
+				el.createDiv({ cls: "dlv-model-empty", text: `No ${options.predicate} atoms in this answer set` });
+				return;
+			}
+
+			const table = el.createEl("table", { cls: "dlv-grid" });
+			const header = table.createEl("tr");
+			header.createEl("th");
+			grid.columns.forEach(column => header.createEl("th", { text: column }));
+			for (const row of grid.rows) {
+				const tr = table.createEl("tr");
+				tr.createEl("th", { text: row });
+				for (const column of grid.columns) {
+					const key = `${row},${column}`;
+					const td = tr.createEl("td");
+					if (!grid.cells.has(key)) continue;
+
+					const value = grid.cells.get(key)!;
+					td.setText(options.symbols?.[value] ?? (value || "■"));
+					td.title = value;
+					const color = options.colors === "auto" ? colorForValue(value) : options.colors?.[value];
+					if (color) td.style.backgroundColor = color;
+					td.toggleClass("is-highlighted", grid.highlighted.has(key));
+				}
+			}
+		});
+	}
+
+	// Esporta il risultato nella cartella configurata; il CSV produce un file per predicato
+	async exportResult(result: DlvResult, format: ExportFormat, sourcePath: string) {
+		const meta: ExportMeta = { source: sourcePath, solver: result.solver, flags: result.flags || "", date: new Date() };
+		const pattern = this.settings.exportFilePattern || DEFAULT_SETTINGS.exportFilePattern;
+		try {
+			const files: { name: string; extension: string; content: string }[] = [];
+			if (format === "json") {
+				files.push({ name: formatExportName(pattern, meta, result.mode), extension: "json", content: resultToJson(result, meta) });
+			} else if (format === "markdown") {
+				files.push({ name: formatExportName(pattern, meta, result.mode), extension: "md", content: resultToMarkdown(result, meta) });
+			} else {
+				resultToCsv(result).forEach((content, predicate) => files.push({
+					name: formatExportName(pattern, meta, result.mode, predicate),
+					extension: "csv",
+					content
+				}));
+			}
+
+			const folder = this.settings.exportFolder.trim().replace(/^\/+|\/+$/g, "");
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) await this.app.vault.createFolder(folder);
+
+			const created: TFile[] = [];
+			for (const file of files) {
+				created.push(await this.app.vault.create(this.getAvailableExportPath(folder, file.name, file.extension), file.content));
+			}
+			new Notice(created.length === 1 ? `Exported to ${created[0].path}` : `Exported ${created.length} files to ${folder || "/"}`);
+			if (format === "markdown") await this.app.workspace.getLeaf(true).openFile(created[0]);
+		} catch (error) {
+			new Notice(`Export failed: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	private getAvailableExportPath(folder: string, name: string, extension: string) {
+		const prefix = folder ? `${folder}/` : "";
+		let candidate = `${prefix}${name}.${extension}`;
+		for (let i = 1; this.app.vault.getAbstractFileByPath(candidate); i++) {
+			candidate = `${prefix}${name} ${i}.${extension}`;
+		}
+		return candidate;
+	}
+
+	private async exportSvg(svg: SVGSVGElement, sourcePath: string, index: number) {
+		const base = sourcePath ? path.basename(sourcePath, path.extname(sourcePath)) : "answer-set";
+		const filePath = await this.app.fileManager.getAvailablePathForAttachment(`${base}-graph-${index + 1}.svg`, sourcePath);
+		const file = await this.app.vault.create(filePath, new XMLSerializer().serializeToString(svg));
+		new Notice(`Graph exported to ${file.path}`);
+	}
+
+	private renderAnswerSets(container: HTMLElement, result: DlvResult) {
+		const models = result.models;
+		if (models.some(model => model.cost)) {
+			this.renderOptimization(container, result);
+			return;
+		}
+
+		models.forEach((model, index) => {
+			const details = container.createEl("details", { cls: "dlv-model" });
+			details.open = index === 0;
+			details.createEl("summary", {
+				text: `Answer set ${index + 1} (${model.atoms.length} atoms)`
+			});
+
+			if (model.atoms.length === 0) {
+				details.createDiv({ cls: "dlv-model-empty", text: "Empty answer set" });
+				return;
+			}
+
+			this.renderAtomTables(details, model.atoms);
+		});
+	}
+
+	// Con weak constraint: prima il modello migliore, poi la traccia di convergenza
+	private renderOptimization(container: HTMLElement, result: DlvResult) {
+		const withCost = result.models.filter(model => model.cost);
+		const best = withCost.reduce((a, b) => compareCosts(b.cost!, a.cost!) < 0 ? b : a);
+
+		const badge = container.createDiv({ cls: "dlv-optimum-badge" });
+		if (result.optimum) {
+			badge.setText("optimum found");
+			badge.addClass("is-optimum");
+		} else {
+			badge.setText(result.timedOut ? "best so far (timeout)" : "best so far");
+		}
+
+		const bestEl = container.createEl("details", { cls: "dlv-model" });
+		bestEl.open = true;
+		bestEl.createEl("summary", {
+			text: `Best model — cost ${formatCost(best.cost!)} (${best.atoms.length} atoms)`
+		});
+		this.renderAtomTables(bestEl, best.atoms);
+
+		const trace = result.models.filter(model => model !== best);
+		if (trace.length === 0) return;
+
+		const traceEl = container.createEl("details", { cls: "dlv-model dlv-convergence" });
+		traceEl.createEl("summary", { text: `Convergence trace (${trace.length} earlier models)` });
+		trace.forEach(model => {
+			const modelEl = traceEl.createEl("details", { cls: "dlv-model" });
+			modelEl.createEl("summary", {
+				text: `Model ${result.models.indexOf(model) + 1} — cost ${model.cost ? formatCost(model.cost) : "?"}`
+			});
+			this.renderAtomTables(modelEl, model.atoms);
+		});
+	}
 
-			const errorEl = document.createElement("div");
-			errorEl.className = "dlv-error";
-			errorEl.innerHTML = `<pre>${errorContent}</pre>`;
-			outputEl.appendChild(errorEl);
-		}
+	private renderAtomTables(container: HTMLElement, atoms: AspAtom[]) {
+		groupAtomsByPredicate(atoms).forEach((group, key) => {
+			const table = container.createEl("table", { cls: "dlv-predicate-table" });
+			table.createEl("caption", { text: `${key} (${group.length})` });
 
-		copyBtn.style.display = "block";
+			if (group[0].arity === 0) return;
+
+			const headRow = table.createEl("thead").createEl("tr");
+			for (let i = 0; i < group[0].arity; i++) {
+				headRow.createEl("th", { text: `#${i + 1}` });
+			}
+			const body = table.createEl("tbody");
+			group.forEach(atom => {
+				const row = body.createEl("tr");
+				atom.args.forEach(arg => row.createEl("td", { text: arg }));
+			});
+		});
 	}
 
-	async saveExecutionResult(result: { stdout: string; stderr: string }) {
-		const timestamp = new Date().toLocaleString();
-		let content = `% ${timestamp}\n`;
+	// Voce di un risultato salvato: intestazione con data e modalità, output ed eventuali errori
+	formatResultEntry(result: DlvResult): string[] {
+		const label = result.mode === "models" ? "AnswerSet" : REASONING_MODES[result.mode];
+		const date = new Date();
+		const lines = [`${RESULT_ENTRY} ${date.toISOString()}`, `=== ${date.toLocaleString()} · ${label} ===`];
 
 		const hasOutput = result.stdout.trim().length > 0;
 
 		// Aggiungi output se presente
-		if (hasOutput) {
-			content += "% AnswerSet\n" +
-				result.stdout.split('\n')
-					.map(line => `% ${line}`)
-					.join('\n');
-		}
+		if (hasOutput) lines.push(...result.stdout.trim().split('\n'));
 
 		// Aggiungi errori se rilevanti
 		if ((this.settings.showErrors || !hasOutput) && result.stderr) {
-			content += "\n% Errore\n" +
-				result.stderr.split('\n')
-					.map(line => `% ${line}`)
-					.join('\n');
+			lines.push("Errore", ...result.stderr.trim().split('\n'));
 		}
+		return lines;
+	}
 
-		if (this.app.workspace.getActiveFile()) {
-			await this.app.vault.append(
-				this.app.workspace.getActiveFile()!,
-				`\n\n${content.trim()}`
-			);
+	// Salva il risultato di un intero file tra i marcatori, sostituendo il precedente
+	async saveExecutionResult(result: DlvResult, file: TFile | null = this.app.workspace.getActiveFile()) {
+		if (!file) return;
+		const entry = this.formatResultEntry(result);
+		await this.app.vault.process(file, data =>
+			applyTextEdit(data, buildFileResultEdit(data, entry, this.settings.resultHistory))
+		);
+	}
+
+	// Salva il risultato di un blocco (reading view) nel blocco "dlv-result" che lo segue
+	async saveBlockResult(sourcePath: string, closingLine: number, result: DlvResult) {
+		const file = this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) return;
+
+		const entry = this.formatResultEntry(result);
+		let found = true;
+		await this.app.vault.process(file, data => {
+			const edit = buildBlockResultEdit(data, closingLine, entry, this.settings.resultHistory);
+			found = !!edit;
+			return edit ? applyTextEdit(data, edit) : data;
+		});
+		if (!found) new Notice("Code block not found: the note has changed, run the block again");
+	}
+
+	// Come saveBlockResult, ma modifica direttamente l'editor per non perdere le modifiche non salvate
+	saveResultInEditor(view: EditorView, blockEnd: number, result: DlvResult) {
+		const doc = view.state.doc;
+		const closingLine = doc.lineAt(Math.min(blockEnd, doc.length)).number - 1;
+		const edit = buildBlockResultEdit(doc.toString(), closingLine, this.formatResultEntry(result), this.settings.resultHistory);
+		if (!edit) {
+			new Notice("Code block not found: the note has changed, run the block again");
+			return;
 		}
+		view.dispatch({ changes: edit });
 	}
 
 	copyToClipboard(text: string) {
 		navigator.clipboard.writeText(text).then(() => new Notice("Copied to clipboard"));
 	}
 
+	// Esegue un intero file, salva il risultato in fondo e segna gli errori nell'editor
+	async runFile(file: TFile, options: BlockOptions = {}, signal?: AbortSignal, onProgress?: ProgressCallback) {
+		this.lastRun = () => this.runFile(file, options);
+		const content = await this.app.vault.read(file);
+		const result = await this.executeDlv(content, file.extension, signal, options, file.path, onProgress);
+		await this.saveExecutionResult(result, file);
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const editorView = view?.file === file ? this.getEditorView(view) : null;
+		if (editorView) {
+			this.applyDiagnostics(editorView, 0, editorView.state.doc.length, result.diagnostics);
+		}
+		return result;
+	}
+
+	// "Auto" lascia decidere al commento in testa al file o al frontmatter
+	private createProfileSelect() {
+		const select = document.createElement("select");
+		select.className = "dropdown dlv-mode-select dlv-profile-select";
+		select.createEl("option", { value: "", text: "profile: auto" });
+		this.settings.profiles.forEach(profile => select.createEl("option", { value: profile.name, text: profile.name }));
+		return select;
+	}
+
+	// editor.cm è l'EditorView di CodeMirror 6 (non fa parte dell'API pubblica di Obsidian)
+	private getEditorView(view: MarkdownView): EditorView | null {
+		const cm = (view.editor as Editor & { cm?: unknown }).cm;
+		return cm instanceof EditorView ? cm : null;
+	}
+
 	private addRunButtonToHeader(file: TFile) {
 		const titleBar = this.app.workspace.getLeaf().view.containerEl.querySelector(".view-header");
 		if (!titleBar) return;
@@ -559,7 +5057,7 @@ export default class DlvPlugin extends Plugin {
 		const actionsContainer = titleBar.querySelector(".view-actions") || titleBar.querySelector(".titlebar-button-container");
 		if (!actionsContainer) return;
 
-		actionsContainer.querySelectorAll('.dlv-run-button, .dlv-stop-button').forEach(btn => btn.remove());
+		actionsContainer.querySelectorAll('.dlv-run-button, .dlv-stop-button, .dlv-mode-select, .dlv-profile-select').forEach(btn => btn.remove());
 
 		const runBtn = document.createElement("div") as HTMLDivElement;
 		runBtn.className = "clickable-icon dlv-run-button";
@@ -581,6 +5079,9 @@ export default class DlvPlugin extends Plugin {
 		stopBtn.innerHTML = "⏹ Stop";
 		stopBtn.style.display = "none";
 
+		const modeSelect = this.createModeSelect(this.settings.defaultMode);
+		const profileSelect = this.createProfileSelect();
+
 		let abortController: AbortController | null = null;
 
 		const toggleButtons = (running: boolean) => {
@@ -595,61 +5096,73 @@ export default class DlvPlugin extends Plugin {
 			abortController = new AbortController();
 
 			try {
-				const content = await this.app.vault.read(file);
-				const result = await this.executeDlv(
-					content,
-					file.extension,
-					abortController.signal
-				);
-				await this.saveExecutionResult(result);
+				const options: BlockOptions = {
+					mode: getSelectedMode(modeSelect),
+					profile: profileSelect.value || undefined
+				};
+				await this.runFile(file, options, abortController.signal, (_, modelCount) => {
+					runBtn.querySelector('.dlv-button-text')!.textContent = `Running (${modelCount})`;
+				});
 			} finally {
 				toggleButtons(false);
 				abortController = null;
 			}
 		};
 
-		stopBtn.onclick = () => {
-			if (abortController) {
-				abortController.abort();
-				toggleButtons(false);
-			}
-		};
+		// Il risultato parziale viene comunque salvato quando il solver termina
+		stopBtn.onclick = () => abortController?.abort();
 
 		actionsContainer.prepend(stopBtn);
 		actionsContainer.prepend(runBtn);
+		actionsContainer.prepend(profileSelect);
+		actionsContainer.prepend(modeSelect);
 	}
 
 	private markdownPostProcessor(element: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		// Un file .asp/.dlv in reading view: mostra il sorgente evidenziato invece del markdown
+		const sourceExt = path.extname(ctx.sourcePath).slice(1);
+		if (sourceExt && this.isSupportedExtension(sourceExt)) {
+			const section = ctx.getSectionInfo(element);
+			if (section) {
+				const source = section.text.split("\n").slice(section.lineStart, section.lineEnd + 1).join("\n");
+				element.empty();
+				renderHighlightedAsp(element.createEl("pre", { cls: "dlv-asp-source" }).createEl("code"), source);
+			}
+			return;
+		}
+
 		element.querySelectorAll("pre code").forEach((codeEl) => {
 			const el = codeEl as HTMLElement; // <-- Aggiungi type assertion
 			const lang = this.getCodeBlockLanguage(el);
 			if (!lang || !this.isSupportedLanguage(lang)) return;
+			const { options } = this.getCodeBlockFenceInfo(element, ctx, lang);
 
-			const { header, outputPre, copyBtn } = this.createCodeBlockUI(lang);
-			const runBtn = header.querySelector('.run-btn') as HTMLButtonElement;
-			const saveBtn = header.querySelector('.save-btn') as HTMLButtonElement;
+			const section = ctx.getSectionInfo(element);
+			renderHighlightedAsp(el, el.textContent || "");
+			const ui = this.createCodeBlockUI(lang, options.mode);
+			const code = el.textContent || "";
+			const pre = el.parentElement!.cloneNode(true) as HTMLElement;
+			this.bindCodeBlockUI(ui, lang, options, ctx.sourcePath, () => code, {
+				// Il contenuto inizia la riga dopo il fence
+				onDiagnosticClick: diagnostic => this.revealDiagnostic(diagnostic, section ? section.lineStart + 1 : 0),
+				onSave: async result => {
+					if (section) await this.saveBlockResult(ctx.sourcePath, section.lineEnd, result);
+					else await this.saveExecutionResult(result);
+				},
+				onHighlight: diagnostics => {
+					const codeEl = pre.querySelector("code");
+					if (codeEl) renderHighlightedAspLines(codeEl, code, new Set(diagnostics.map(d => d.line)));
+				}
+			});
 
 			const wrapper = document.createElement("div");
 			wrapper.className = "dlv-codeblock";
 			wrapper.append(
-				header,
-				el.parentElement!.cloneNode(true),
-				outputPre
+				ui.header,
+				pre,
+				ui.outputPre
 			);
 
-			// Aggiungi gestione eventi
-			runBtn.onclick = async () => {
-				const result = await this.executeDlv(el.textContent || "", lang);
-				this.updateOutputUI(outputPre, copyBtn, result);
-			};
-
-			saveBtn.onclick = async () => {
-				const result = await this.executeDlv(el.textContent || "", lang);
-				await this.saveExecutionResult(result);
-			};
-
-			copyBtn.onclick = () => this.copyToClipboard(outputPre.textContent || "");
-
 			el.parentElement?.replaceWith(wrapper);
 		});
 	}
@@ -659,6 +5172,16 @@ export default class DlvPlugin extends Plugin {
 		return langClass?.replace("language-", "");
 	}
 
+	// In reading view la classe "language-*" contiene solo la lingua: le opzioni si leggono dalla riga del fence
+	private getCodeBlockFenceInfo(element: HTMLElement, ctx: MarkdownPostProcessorContext, lang: string): FenceInfo {
+		const section = ctx.getSectionInfo(element);
+		if (!section) return { lang, options: {} };
+
+		const fenceLine = section.text.split("\n")[section.lineStart] || "";
+		const match = fenceLine.match(/^\s*(?:`{3,}|~{3,})(.*)$/);
+		return match ? parseFenceInfo(match[1]) : { lang, options: {} };
+	}
+
 	private isSupportedLanguage(lang: string) {
 		return this.settings.customExtensions
 			.split(",")
@@ -674,16 +5197,12 @@ export default class DlvPlugin extends Plugin {
 		return EditorView.decorations.compute(["doc"], state => {
 			const builder = new RangeSetBuilder<Decoration>();
 			const text = state.doc.toString();
-			const regex = /```(\S+)\n([\s\S]*?)```/g;
-
-			let match;
-			while ((match = regex.exec(text)) !== null) {
-				const lang = match[1].toLowerCase();
-				if (this.isSupportedLanguage(lang)) {
-					const start = match.index + match[0].indexOf(match[2]);
-					const end = start + match[2].length;
-					builder.add(end, end, Decoration.widget({
-						widget: new CodeBlockWidget(this, lang, start, end, text),
+			const sourcePath = state.field(editorInfoField, false)?.file?.path || "";
+
+			for (const block of findCodeBlocks(text)) {
+				if (block.lang && this.isSupportedLanguage(block.lang)) {
+					builder.add(block.end, block.end, Decoration.widget({
+						widget: new CodeBlockWidget(this, block.lang, block.options, block.start, block.end, text, sourcePath),
 						side: 1
 					}));
 				}
@@ -692,6 +5211,157 @@ export default class DlvPlugin extends Plugin {
 		});
 	}
 
+	// Evidenzia i blocchi supportati e, nei file .asp/.dlv, l'intero documento
+	getAspHighlighter() {
+		const plugin = this;
+		const mark = (style: string) => Decoration.mark({ class: `dlv-asp-${style}` });
+
+		return ViewPlugin.fromClass(class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = this.build(view);
+			}
+
+			update(update: ViewUpdate) {
+				if (update.docChanged || update.viewportChanged) this.decorations = this.build(update.view);
+			}
+
+			// Tokenizza solo le righe visibili dei blocchi supportati; le note senza blocchi ASP non costano nulla
+			build(view: EditorView) {
+				const doc = view.state.doc;
+				const file = view.state.field(editorInfoField, false)?.file;
+
+				const ranges = file && plugin.isSupportedExtension(file.extension)
+					? [{ start: 0, end: doc.length }]
+					: findCodeBlocks(doc.toString()).filter(block => block.lang && plugin.isSupportedLanguage(block.lang));
+				if (ranges.length === 0) return Decoration.none;
+
+				const builder = new RangeSetBuilder<Decoration>();
+				for (const range of ranges) {
+					let last = range.start;
+					for (const visible of view.visibleRanges) {
+						const from = Math.max(last, doc.lineAt(visible.from).from);
+						const to = Math.min(range.end, doc.lineAt(visible.to).to);
+						if (from >= to) continue;
+						// Un commento %* ... *% aperto prima del tratto visibile continua al suo interno
+						const before = doc.sliceString(range.start, from);
+						const inBlockComment = before.lastIndexOf("%*") > before.lastIndexOf("*%");
+						for (const token of tokenizeAsp(doc.sliceString(from, to), inBlockComment)) {
+							builder.add(from + token.from, from + token.to, mark(token.style));
+						}
+						last = to;
+					}
+				}
+				return builder.finish();
+			}
+		}, {
+			decorations: value => value.decorations
+		});
+	}
+
+	// Analisi statica del codice; i predicati dei blocchi e file inclusi contano come definiti
+	async checkCode(code: string, options: BlockOptions, sourcePath: string): Promise<CheckDiagnostic[]> {
+		const external = new Set<string>();
+		for (const source of [...(options.factSources || []), ...findFactDirectives(code)]) {
+			const arity = source.fields?.length ?? source.arity;
+			if (arity !== undefined) external.add(`${source.predicate}/${arity}`);
+		}
+		const targets = [...(options.include || []), ...findIncludeDirectives(code)];
+		for (const target of Array.from(new Set(targets))) {
+			try {
+				const resolved = await this.resolveIncludeTarget(target, sourcePath);
+				collectPredicates(resolved.content).forEach((arities, name) => {
+					arities.forEach(arity => external.add(`${name}/${arity}`));
+				});
+			} catch {
+				// Include non risolvibile: viene segnalato all'esecuzione
+			}
+		}
+		return checkAspProgram(code, external);
+	}
+
+	// Sorgente del linter: file ASP interi oppure i blocchi dei linguaggi supportati
+	async aspLintSource(view: EditorView): Promise<Diagnostic[]> {
+		const text = view.state.doc.toString();
+		const file = view.state.field(editorInfoField, false)?.file;
+		const ranges = file && this.isSupportedExtension(file.extension)
+			? [{ start: 0, content: text, options: {} as BlockOptions }]
+			: findCodeBlocks(text).filter(block => block.lang && this.isSupportedLanguage(block.lang));
+
+		const diagnostics: Diagnostic[] = [];
+		for (const range of ranges) {
+			const checks = await this.checkCode(range.content, range.options, file?.path || "");
+			checks.forEach(check => diagnostics.push({
+				from: range.start + check.from,
+				to: range.start + check.to,
+				severity: check.severity,
+				message: check.message,
+				source: "ASP check"
+			}));
+		}
+
+		// Le diagnostiche del solver restano fino alla prossima esecuzione
+		forEachDiagnostic(view.state, (d, from, to) => {
+			if (d.source === "DLV" && to <= view.state.doc.length) diagnostics.push({ ...d, from, to });
+		});
+		return diagnostics;
+	}
+
+	// Suggerisce predicati (blocco corrente, altri blocchi della nota, file inclusi),
+	// snippet per aggregati e direttive, e le variabili della regola corrente
+	async aspCompletionSource(context: CompletionContext): Promise<CompletionResult | null> {
+		const word = context.matchBefore(/#?-?[A-Za-z_][A-Za-z0-9_]*/);
+		if (!word && !context.explicit) return null;
+
+		const text = context.state.doc.toString();
+		const file = context.state.field(editorInfoField, false)?.file;
+		const isAspFile = !!file && this.isSupportedExtension(file.extension);
+		const blocks = isAspFile
+			? []
+			: findCodeBlocks(text).filter(block => block.lang && this.isSupportedLanguage(block.lang));
+		const current = isAspFile
+			? { start: 0, content: text, options: {} as BlockOptions }
+			: blocks.find(block => context.pos >= block.start && context.pos <= block.end);
+		if (!current) return null;
+
+		const predicates = collectPredicates(current.content);
+		blocks.filter(block => block !== current).forEach(block => collectPredicates(block.content, predicates));
+
+		const sourcePath = file?.path || "";
+		const targets = [
+			...(current.options.include || []),
+			...blocks.flatMap(block => block.options.include || []),
+			...findIncludeDirectives(isAspFile ? text : blocks.map(block => block.content).join("\n"))
+		];
+		for (const target of Array.from(new Set(targets))) {
+			try {
+				const resolved = await this.resolveIncludeTarget(target, sourcePath);
+				collectPredicates(resolved.content, predicates);
+			} catch {
+				// Include non risolvibile: viene segnalato all'esecuzione
+			}
+		}
+
+		const options: Completion[] = [...ASP_SNIPPETS];
+		predicates.forEach((arities, name) => {
+			arities.forEach(arity => {
+				const params = Array.from({ length: arity }, (_, i) => `\${${String.fromCharCode(65 + (i % 26))}}`);
+				options.push(arity === 0
+					? { label: name, detail: "/0", type: "function" }
+					: snippetCompletion(`${name}(${params.join(",")})`, { label: name, detail: `/${arity}`, type: "function" }));
+			});
+		});
+		collectRuleVariables(current.content, context.pos - current.start)
+			.forEach(name => options.push({ label: name, type: "variable", boost: 1 }));
+
+		return {
+			from: word ? word.from : context.pos,
+			options,
+			validFor: /^#?-?[A-Za-z_][A-Za-z0-9_]*$/
+		};
+	}
+
 	private async initializePluginPath() {
 		try {
 			// Ottieni il percorso base corretto della vault
@@ -724,12 +5394,15 @@ export default class DlvPlugin extends Plugin {
 
 			try {
 				const files = await fs.readdir(executablesPath);
-				this.settings.availableExecutables = files
-					.filter(f => f.toLowerCase().includes('dlv'))
-					.map(f => path.join('executables', f));
-
-				//console.log("Eseguibili trovati:", this.settings.availableExecutables);
+				const compatible = files
+					.filter(f => f.toLowerCase().includes('dlv') && this.isValidExecutable(f))
+					.sort((a, b) => getExecutableScore(b, process.platform, process.arch) - getExecutableScore(a, process.platform, process.arch));
+				this.settings.availableExecutables = compatible.map(f => path.join('executables', f));
 
+				// Se l'eseguibile scelto non c'è (o è per un'altra piattaforma) si usa il più adatto
+				if (!this.settings.availableExecutables.includes(this.settings.relativeExecutable)) {
+					this.settings.relativeExecutable = this.settings.availableExecutables[0] ?? "";
+				}
 			} catch (error) {
 				console.error("Errore scansione eseguibili:", error);
 			}
@@ -737,13 +5410,69 @@ export default class DlvPlugin extends Plugin {
 	}
 
 	private isValidExecutable(filename: string): boolean {
-		// Verifica per Windows
-		if (process.platform === 'win32') {
-			return filename.toLowerCase().endsWith('.exe');
+		return getExecutableScore(filename, process.platform, process.arch) >= 0;
+	}
+
+	// Stato dell'eseguibile DLV2 configurato: esistenza, permesso di esecuzione e versione
+	async inspectDlvExecutable(): Promise<{ path: string; state: "missing" | "not-executable" | "ok"; version: string }> {
+		let executable: string;
+		try {
+			executable = this.getDlvPath();
+		} catch {
+			return { path: "", state: "missing", version: "" };
+		}
+		if (!await fs.stat(executable).then(stat => stat.isFile()).catch(() => false)) {
+			return { path: executable, state: "missing", version: "" };
+		}
+		if (process.platform !== "win32" && !await fs.access(executable, fs.constants.X_OK).then(() => true).catch(() => false)) {
+			return { path: executable, state: "not-executable", version: "" };
+		}
+		return { path: executable, state: "ok", version: await this.probeSolverVersion(executable) };
+	}
+
+	async makeExecutable(executable: string) {
+		const stat = await fs.stat(executable);
+		await fs.chmod(executable, stat.mode | 0o111);
+	}
+
+	// Prima riga di "--version" (es. "DLV 2.1.2"), vuota se il solver non risponde
+	private async probeSolverVersion(executable: string): Promise<string> {
+		try {
+			const result = await this.runSolver(executable, ["--version"], 5000, new AbortController().signal);
+			return `${result.stdout}\n${result.stderr}`.split("\n").map(line => line.trim()).find(line => line) || "";
+		} catch {
+			return "";
 		}
+	}
 
-		// Verifica per Linux/Mac (controllo pattern nome)
-		return /^dlv[-_]?(linux|mac|.*)/i.test(filename);
+	// Esegue un programma noto e controlla l'answer set atteso
+	async testSolver(id: SolverId): Promise<{ ok: boolean; message: string }> {
+		const backend = this.getSolverBackend(id);
+		const runOptions: SolverRunOptions = { mode: "models", models: 0, hideFacts: false, timeout: 10000 };
+		const program = "a. b :- a. c :- not a.";
+		const tmpFile = tempFilePath("dlv-test", "asp");
+		try {
+			await fs.writeFile(tmpFile, backend.prepareProgram ? backend.prepareProgram(program, runOptions) : program, "utf8");
+			const result = await this.runSolver(
+				this.getSolverExecutable(id),
+				backend.buildArgs(tmpFile, runOptions),
+				runOptions.timeout,
+				new AbortController().signal
+			);
+			const models = backend.parseOutput(result.stdout, "models").models;
+			const atoms = models.length === 1 ? models[0].atoms.map(atomToString).sort().join(", ") : "";
+			if (atoms === "a, b") return { ok: true, message: `${backend.name} works: answer set {a, b}` };
+
+			const error = backend.cleanErrors(result.stderr).trim().split("\n")[0];
+			return {
+				ok: false,
+				message: error || `${backend.name} returned ${models.length} answer sets instead of {a, b}`
+			};
+		} catch (error) {
+			return { ok: false, message: `${backend.name} could not be started: ${error instanceof Error ? error.message : error}` };
+		} finally {
+			await fs.unlink(tmpFile).catch(() => {});
+		}
 	}
 
 	private getDlvPath() {
@@ -751,6 +5480,10 @@ export default class DlvPlugin extends Plugin {
 			return this.settings.absolutePath;
 		}
 
+		// Nessun binario incluso per questa piattaforma: meglio fallire subito che eseguire la cartella del plugin
+		if (!this.settings.relativeExecutable) {
+			throw new Error("No DLV executable for this platform: set a custom path (Absolute Path) in the settings");
+		}
 		// 4. Costruzione percorso relativo corretta
 		return path.join(
 			this.pluginPath,
@@ -759,31 +5492,100 @@ export default class DlvPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Le versioni precedenti salvavano la cronologia insieme alle impostazioni
+		const { history: legacyHistory, ...settings } = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.settings.profiles = this.settings.profiles.map(profile => ({ ...profile }));
+		await this.loadHistory(legacyHistory);
+		this.jobs.setLimit(this.settings.maxParallelRuns);
 		await this.refreshExecutablesList();
 	}
 
 	async saveSettings() {
-		// Validazione rinforzata
+		// Un eseguibile mancante non blocca il salvataggio delle altre impostazioni
 		if (this.settings.dlvLocationType === 'relative') {
 			const fullPath = path.join(this.pluginPath, this.settings.relativeExecutable);
 
-			if (!await fs.access(fullPath).then(() => true).catch(() => false)) {
+			if (!this.settings.relativeExecutable || !await fs.access(fullPath).then(() => true).catch(() => false)) {
 				new Notice('⚠️ Executable not found in relative path!');
-				return;
 			}
 		} else {
 			if (!await fs.access(this.settings.absolutePath).then(() => true).catch(() => false)) {
 				new Notice('⚠️ Absolute invalid path!');
-				return;
 			}
 		}
 
 		await this.saveData(this.settings);
 	}
 
+	// La cronologia sta in history.json nella cartella del plugin, non in data.json
+	private async loadHistory(legacyHistory: unknown) {
+		try {
+			const history = JSON.parse(await fs.readFile(this.getHistoryFilePath(), "utf8"));
+			this.history = Array.isArray(history) ? history : [];
+		} catch {
+			this.history = Array.isArray(legacyHistory) ? legacyHistory.map(entry => ({
+				...entry,
+				modelCount: getHistoryModelCount(entry),
+				result: trimHistoryResult(entry.result)
+			})) : [];
+			if (Array.isArray(legacyHistory)) {
+				await this.writeHistory();
+				await this.saveData(this.settings);
+			}
+		}
+	}
+
+	addHistoryEntry(entry: HistoryEntry) {
+		if (this.settings.historySize <= 0) return;
+		const stored = { ...entry, modelCount: getHistoryModelCount(entry), result: trimHistoryResult(entry.result) };
+		this.history = [stored, ...this.history].slice(0, Math.max(0, this.settings.historySize));
+		this.saveHistory();
+	}
+
+	// Le viste si aggiornano subito; la scrittura su disco è ritardata, così un'esecuzione
+	// di molti blocchi (es. tutti i test del vault) produce una sola scrittura
+	saveHistory() {
+		this.app.workspace.getLeavesOfType(DLV_HISTORY_VIEW).forEach(leaf => {
+			if (leaf.view instanceof DlvHistoryView) leaf.view.refresh();
+		});
+		if (this.historySaveTimer !== null) window.clearTimeout(this.historySaveTimer);
+		this.historySaveTimer = window.setTimeout(() => {
+			this.historySaveTimer = null;
+			this.writeHistory();
+		}, HISTORY_SAVE_DELAY);
+	}
+
+	private async writeHistory() {
+		try {
+			await fs.writeFile(this.getHistoryFilePath(), JSON.stringify(this.history), "utf8");
+		} catch (error) {
+			console.error("Errore salvataggio cronologia:", error);
+		}
+	}
+
+	async rerunHistoryEntry(entry: HistoryEntry) {
+		const result = await this.executeDlv(entry.content, entry.lang, undefined, entry.options, entry.path);
+		this.reportResult(entry.block || entry.path, result);
+	}
+
+	private async openHistoryView() {
+		let leaf = this.app.workspace.getLeavesOfType(DLV_HISTORY_VIEW)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf(true);
+			await leaf.setViewState({ type: DLV_HISTORY_VIEW, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
 	onunload() {
-		this.activeAbortControllers.forEach(controller => controller.abort());
+		// Scrive subito la cronologia ancora in attesa
+		if (this.historySaveTimer !== null) {
+			window.clearTimeout(this.historySaveTimer);
+			this.writeHistory();
+		}
+		this.jobs.cancelAll();
+		this.jobsModal?.close();
 		this.stylesEl?.remove();
 	}
 }
@@ -793,6 +5595,8 @@ class DlvSettingTab extends PluginSettingTab {
 	private typeDropdown: DropdownComponent;
 	private absoluteSetting: Setting;
 	private relativeSetting: Setting;
+	private statusSetting: Setting;
+	private chmodButton: ButtonComponent;
 
 	constructor(app: App, plugin: DlvPlugin) {
 		super(app, plugin);
@@ -818,6 +5622,7 @@ class DlvSettingTab extends PluginSettingTab {
 						await this.plugin.refreshExecutablesList();
 						this.updateSettingsVisibility();
 						await this.plugin.saveSettings();
+						await this.updateSolverStatus();
 					});
 			});
 
@@ -830,6 +5635,7 @@ class DlvSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.absolutePath = value;
 					await this.plugin.saveSettings();
+					await this.updateSolverStatus();
 				}));
 
 		// Percorso relativo
@@ -845,6 +5651,97 @@ class DlvSettingTab extends PluginSettingTab {
 					.onChange(async (value: string) => {
 						this.plugin.settings.relativeExecutable = value;
 						await this.plugin.saveSettings();
+						await this.updateSolverStatus();
+					});
+			});
+
+		// Stato dell'eseguibile: versione, permessi e prova
+		this.statusSetting = new Setting(containerEl)
+			.setName('Solver Status')
+			.setDesc('Checking…')
+			.addButton(button => {
+				this.chmodButton = button;
+				button.setButtonText('Make executable').onClick(async () => {
+					const status = await this.plugin.inspectDlvExecutable();
+					try {
+						await this.plugin.makeExecutable(status.path);
+						new Notice('DLV is now executable');
+					} catch (error) {
+						new Notice(`chmod failed: ${error instanceof Error ? error.message : error}`);
+					}
+					await this.updateSolverStatus();
+				});
+			})
+			.addButton(button => button
+				.setButtonText('Test solver')
+				.onClick(() => this.testSolver(button, "dlv2")));
+		this.updateSolverStatus();
+
+		new Setting(containerEl)
+			.setName('DLV (classic) Path')
+			.setDesc('Executable used by the DLV backend (a name in PATH or a full path)')
+			.addText(text => text
+				.setValue(this.plugin.settings.dlvClassicPath)
+				.onChange(async (value) => {
+					this.plugin.settings.dlvClassicPath = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(() => this.testSolver(button, "dlv")));
+
+		new Setting(containerEl)
+			.setName('clingo Path')
+			.setDesc('Executable used by the clingo backend (a name in PATH or a full path)')
+			.addText(text => text
+				.setValue(this.plugin.settings.clingoPath)
+				.onChange(async (value) => {
+					this.plugin.settings.clingoPath = value.trim();
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Test')
+				.onClick(() => this.testSolver(button, "clingo")));
+
+		new Setting(containerEl)
+			.setName('Custom Solver Command')
+			.setDesc('Template for the Custom backend. Placeholders: {file}, {n}, {filter}, {timeout}, {mode}')
+			.addText(text => text
+				.setPlaceholder('mysolver {file} --models {n}')
+				.setValue(this.plugin.settings.customCommand)
+				.onChange(async (value) => {
+					this.plugin.settings.customCommand = value;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('dlv', 'DLV output')
+				.addOption('clingo', 'clingo output')
+				.setValue(this.plugin.settings.customOutputFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.customOutputFormat = value as "dlv" | "clingo";
+					await this.plugin.saveSettings();
+				}));
+
+		// Un backend per ogni estensione supportata
+		this.plugin.settings.customExtensions
+			.split(',')
+			.map(ext => ext.trim().toLowerCase())
+			.filter(ext => ext.length > 0)
+			.forEach(ext => {
+				new Setting(containerEl)
+					.setName(`Solver for ${ext.toUpperCase()}`)
+					.setDesc(`Backend used for .${ext} files and ${ext} code blocks (override per block with solver=...)`)
+					.addDropdown(dropdown => {
+						(Object.keys(SOLVER_NAMES) as SolverId[]).forEach(id => dropdown.addOption(id, SOLVER_NAMES[id]));
+						dropdown
+							.setValue(this.plugin.settings.languageSolvers[ext] ?? "dlv2")
+							.onChange(async (value) => {
+								this.plugin.settings.languageSolvers = {
+									...this.plugin.settings.languageSolvers,
+									[ext]: value as SolverId
+								};
+								await this.plugin.saveSettings();
+							});
 					});
 			});
 
@@ -879,6 +5776,21 @@ class DlvSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Default Reasoning Mode')
+			.setDesc('Models, brave or cautious consequences, or query answering (can be changed per block)')
+			.addDropdown(dropdown => {
+				(Object.keys(REASONING_MODES) as ReasoningMode[]).forEach(mode => {
+					dropdown.addOption(mode, REASONING_MODES[mode]);
+				});
+				dropdown
+					.setValue(this.plugin.settings.defaultMode)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultMode = value as ReasoningMode;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Hide Facts')
 			.setDesc('Enable --no-facts flag to hide facts')
@@ -889,6 +5801,93 @@ class DlvSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Cache Results')
+			.setDesc('Reuse the result of a program that has already been run with the same solver and flags')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheResults)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheResults = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Persist Cache')
+			.setDesc('Keep cached results in the plugin folder across restarts')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.persistCache)
+				.onChange(async (value) => {
+					this.plugin.settings.persistCache = value;
+					await this.plugin.saveSettings();
+					if (value) await this.plugin.saveResultCache();
+				}));
+
+		new Setting(containerEl)
+			.setName('Cache Size')
+			.setDesc('Maximum number of cached results (least recently used are removed first)')
+			.addText(text => text
+				.setValue(this.plugin.settings.cacheSize.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.cacheSize = Math.max(0, parseInt(value) || 0);
+					this.plugin.updateResultCacheLimit();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Saved Results History')
+			.setDesc('Number of saved results kept under a block or at the end of a file (1 keeps only the latest)')
+			.addText(text => text
+				.setValue(this.plugin.settings.resultHistory.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.resultHistory = Math.max(1, parseInt(value) || 1);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Execution History Size')
+			.setDesc('Maximum number of executions kept in the history panel (0 disables the history)')
+			.addText(text => text
+				.setValue(this.plugin.settings.historySize.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.historySize = Math.max(0, parseInt(value) || 0);
+					this.plugin.history = this.plugin.history.slice(0, this.plugin.settings.historySize);
+					this.plugin.saveHistory();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel Executions')
+			.setDesc('How many solvers can run at the same time (0 = no limit). Other runs wait in a queue, in order')
+			.addText(text => text
+				.setValue(this.plugin.settings.maxParallelRuns.toString())
+				.onChange(async (value) => {
+					this.plugin.settings.maxParallelRuns = Math.max(0, parseInt(value) || 0);
+					this.plugin.jobs.setLimit(this.plugin.settings.maxParallelRuns);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export Folder')
+			.setDesc('Vault folder for exported answer sets (JSON, CSV and Markdown)')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.exportFolder)
+				.setValue(this.plugin.settings.exportFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Export File Name')
+			.setDesc('Pattern for exported files: {note}, {date}, {time}, {mode}, {solver}, {predicate}')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.exportFilePattern)
+				.setValue(this.plugin.settings.exportFilePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.exportFilePattern = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Error Handling')
 			.setDesc('Show error messages in output')
@@ -899,9 +5898,161 @@ class DlvSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		this.displayProfiles(containerEl.createDiv());
+
 		this.updateSettingsVisibility();
 	}
 
+	// Profili: ogni campo vuoto ("inherit") lascia decidere alle impostazioni globali
+	private displayProfiles(containerEl: HTMLElement) {
+		containerEl.empty();
+		containerEl.createEl('h3', { text: 'Profiles' });
+		containerEl.createEl('p', {
+			cls: 'setting-item-description',
+			text: 'Use a profile with profile=name on a block, "% profile: name" at the top of a file, dlv-profile: name in the frontmatter, or the dropdown next to the header Run button.'
+		});
+
+		const profiles = this.plugin.settings.profiles;
+		const save = async () => {
+			this.plugin.settings.profiles = [...profiles];
+			await this.plugin.saveSettings();
+		};
+
+		profiles.forEach((profile, index) => {
+			const details = containerEl.createEl('details', { cls: 'dlv-profile-settings' });
+			details.createEl('summary', { text: profile.name || '(unnamed)' });
+
+			new Setting(details)
+				.setName('Name')
+				.addText(text => text
+					.setValue(profile.name)
+					.onChange(async (value) => {
+						profile.name = value.trim();
+						await save();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete profile')
+					.onClick(async () => {
+						profiles.splice(index, 1);
+						await save();
+						this.displayProfiles(containerEl);
+					}));
+
+			new Setting(details)
+				.setName('Solver')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Inherit');
+					(Object.keys(SOLVER_NAMES) as SolverId[]).forEach(id => dropdown.addOption(id, SOLVER_NAMES[id]));
+					dropdown
+						.setValue(profile.solver ?? '')
+						.onChange(async (value) => {
+							profile.solver = value ? value as SolverId : undefined;
+							await save();
+						});
+				});
+
+			new Setting(details)
+				.setName('Models')
+				.setDesc('Number of answer sets, 0 for all, empty to inherit')
+				.addText(text => text
+					.setValue(profile.models?.toString() ?? '')
+					.onChange(async (value) => {
+						const n = parseInt(value);
+						profile.models = isNaN(n) || n < 0 ? undefined : n;
+						await save();
+					}));
+
+			new Setting(details)
+				.setName('Facts')
+				.addDropdown(dropdown => dropdown
+					.addOption('', 'Inherit')
+					.addOption('show', 'Show facts')
+					.addOption('hide', 'Hide facts')
+					.setValue(profile.noFacts === undefined ? '' : profile.noFacts ? 'hide' : 'show')
+					.onChange(async (value) => {
+						profile.noFacts = value ? value === 'hide' : undefined;
+						await save();
+					}));
+
+			new Setting(details)
+				.setName('Reasoning Mode')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Inherit');
+					(Object.keys(REASONING_MODES) as ReasoningMode[]).forEach(mode => dropdown.addOption(mode, REASONING_MODES[mode]));
+					dropdown
+						.setValue(profile.mode ?? '')
+						.onChange(async (value) => {
+							profile.mode = value ? value as ReasoningMode : undefined;
+							await save();
+						});
+				});
+
+			new Setting(details)
+				.setName('Timeout')
+				.setDesc('Milliseconds, empty to inherit')
+				.addText(text => text
+					.setValue(profile.timeout?.toString() ?? '')
+					.onChange(async (value) => {
+						const ms = parseInt(value);
+						profile.timeout = isNaN(ms) || ms < 0 ? undefined : ms;
+						await save();
+					}));
+
+			new Setting(details)
+				.setName('Filter')
+				.setDesc('Predicates to show, e.g. path/2,cost/1')
+				.addText(text => text
+					.setValue(profile.filter?.join(',') ?? '')
+					.onChange(async (value) => {
+						const filter = value.split(',').map(p => p.trim()).filter(p => p.length > 0);
+						profile.filter = filter.length > 0 ? filter : undefined;
+						await save();
+					}));
+
+			new Setting(details)
+				.setName('Output View')
+				.setDesc('View shown first when the block has graph or grid options')
+				.addDropdown(dropdown => dropdown
+					.addOption('', 'Inherit')
+					.addOption('text', 'Text')
+					.addOption('graph', 'Graph')
+					.addOption('grid', 'Grid')
+					.setValue(profile.view ?? '')
+					.onChange(async (value) => {
+						profile.view = value ? value as OutputView : undefined;
+						await save();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(async () => {
+					profiles.push({ name: `profile${profiles.length + 1}` });
+					await save();
+					this.displayProfiles(containerEl);
+				}));
+	}
+
+	private async testSolver(button: ButtonComponent, id: SolverId) {
+		button.setDisabled(true);
+		const result = await this.plugin.testSolver(id);
+		new Notice(`${result.ok ? '✅' : '⚠️'} ${result.message}`);
+		button.setDisabled(false);
+	}
+
+	private async updateSolverStatus() {
+		const status = await this.plugin.inspectDlvExecutable();
+		const descriptions = {
+			missing: `Executable not found: ${status.path || 'no DLV binary for this platform'}`,
+			"not-executable": `${path.basename(status.path)} is not executable`,
+			ok: `${path.basename(status.path)} · ${status.version || 'version unknown'}`
+		};
+		this.statusSetting.setDesc(descriptions[status.state]);
+		this.chmodButton.buttonEl.style.display = status.state === "not-executable" ? "" : "none";
+	}
+
 	private updateSettingsVisibility(): void {
 		const isAbsolute = this.plugin.settings.dlvLocationType === "absolute";
 
@@ -914,6 +6065,7 @@ class DlvSettingTab extends PluginSettingTab {
 			dropdown.innerHTML = this.plugin.settings.availableExecutables
 				.map(exe => `<option value="${exe}">${path.basename(exe)}</option>`)
 				.join('');
+			dropdown.value = this.plugin.settings.relativeExecutable;
 		}
 
 		// Messaggio dettagliato